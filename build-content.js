@@ -3,10 +3,33 @@ import { resolve } from 'path';
 import { writeFileSync } from 'fs';
 
 const contentEntry = resolve(process.cwd(), 'src/content/index.tsx');
+const workerEntry = resolve(process.cwd(), 'src/content/sanitize.worker.ts');
 const outFile = resolve(process.cwd(), 'dist/content.js');
 
+/**
+ * Bundle the rule worker, which the content script starts from a blob
+ */
+async function buildWorkerSource() {
+  const result = await esbuild.build({
+    entryPoints: [workerEntry],
+    bundle: true,
+    write: false,
+    format: 'iife',
+    minify: process.env.NODE_ENV === 'production',
+    sourcemap: false,
+    define: {
+      'process.env.NODE_ENV': `"${process.env.NODE_ENV || 'development'}"`,
+    },
+  });
+  return result.outputFiles[0].text;
+}
+
 async function buildContentScript() {
   try {
+    console.log('Building rule worker...');
+    const workerSource = await buildWorkerSource();
+    console.log(`✓ Rule worker built (${workerSource.length} bytes)`);
+
     console.log('Building content script as IIFE...');
     console.log('Entry:', contentEntry);
     console.log('Output:', outFile);
@@ -25,6 +48,7 @@ async function buildContentScript() {
       },
       define: {
         'process.env.NODE_ENV': `"${process.env.NODE_ENV || 'development'}"`,
+        __SANITIZE_WORKER_SOURCE__: JSON.stringify(workerSource),
       },
     });
 
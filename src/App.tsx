@@ -1,15 +1,22 @@
 import { useMemo, useState, useEffect } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { RuleList } from "@/popup/components/RuleList";
+import { RuleList, type CategoryGroup } from "@/popup/components/RuleList";
 import { RuleForm } from "@/popup/components/RuleForm";
 import { Settings } from "@/popup/components/Settings";
+import { AllowlistEditor } from "@/popup/components/AllowlistEditor";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { storage } from "@/shared/storage";
-import type { SanitizationRule, ExtensionSettings } from "@/shared/types";
+import type {
+  SanitizationRule,
+  ExtensionSettings,
+  AllowlistEntry,
+} from "@/shared/types";
 import "@/index.css";
 
 function App() {
   const [rules, setRules] = useState<SanitizationRule[]>([]);
   const [settings, setSettings] = useState<ExtensionSettings | null>(null);
+  const [allowlist, setAllowlist] = useState<AllowlistEntry[]>([]);
   const [editingRule, setEditingRule] = useState<SanitizationRule | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [ruleSearch, setRuleSearch] = useState("");
@@ -24,6 +31,7 @@ function App() {
         if (cancelled) return;
         setRules(data.rules);
         setSettings(data.settings);
+        setAllowlist(data.allowlist || []);
       })
       .catch((err: unknown) => {
         console.error("Maskeraid: Failed to load data", err);
@@ -33,6 +41,7 @@ function App() {
     const unsubscribe = storage.subscribe((changes) => {
       if (changes.rules) setRules(changes.rules);
       if (changes.settings) setSettings(changes.settings);
+      if (changes.allowlist) setAllowlist(changes.allowlist);
     });
 
     return () => {
@@ -59,6 +68,10 @@ function App() {
     await storage.toggleRule(id);
   };
 
+  const handleToggleCategory = async (category: string, enabled: boolean) => {
+    await storage.setCategoryEnabled(category, enabled);
+  };
+
   const handleLoadDefaults = async () => {
     await storage.resetRules();
   };
@@ -84,6 +97,11 @@ function App() {
     await storage.updateSettings(updates);
   };
 
+  const handleUpdateAllowlist = async (entries: AllowlistEntry[]) => {
+    setAllowlist(entries);
+    await storage.setAllowlist(entries);
+  };
+
   const filteredRules = useMemo(() => {
     const query = ruleSearch.trim().toLowerCase();
     if (!query) return rules;
@@ -91,10 +109,35 @@ function App() {
     return rules.filter((r) => {
       const name = r.name.toLowerCase();
       const pattern = r.pattern.toLowerCase();
-      return name.includes(query) || pattern.includes(query);
+      return (
+        name.includes(query) ||
+        pattern.includes(query) ||
+        !!r.terms?.some((term) => term.toLowerCase().includes(query)) ||
+        !!r.keys?.some((key) => key.toLowerCase().includes(query)) ||
+        !!r.internalDomains?.some((domain) =>
+          domain.toLowerCase().includes(query)
+        )
+      );
     });
   }, [rules, ruleSearch]);
 
+  const categoryGroups = useMemo(() => {
+    const groups = new Map<string, CategoryGroup>();
+    for (const rule of rules) {
+      // National ID rules are toggled by country in Settings
+      if (!rule.category || rule.country) continue;
+      const group = groups.get(rule.category) ?? {
+        name: rule.category,
+        enabled: 0,
+        total: 0,
+      };
+      group.total++;
+      if (rule.enabled) group.enabled++;
+      groups.set(rule.category, group);
+    }
+    return [...groups.values()];
+  }, [rules]);
+
   if (showForm) {
     return (
       <div className="w-[480px] min-h-[500px] bg-background">
@@ -102,6 +145,7 @@ function App() {
           rule={editingRule}
           onSave={handleSaveRule}
           onCancel={handleCancelForm}
+          allowlist={allowlist}
         />
       </div>
     );
@@ -129,8 +173,11 @@ function App() {
         defaultValue="rules"
         className="flex flex-col mt-4 px-4 flex-1 min-h-0"
       >
-        <TabsList className="grid w-full grid-cols-2 shrink-0">
+        <TabsList className="grid w-full grid-cols-3 shrink-0">
           <TabsTrigger value="rules">Rules ({rules.length})</TabsTrigger>
+          <TabsTrigger value="allowlist">
+            Allowlist ({allowlist.length})
+          </TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -144,13 +191,38 @@ function App() {
             onEdit={handleEditRule}
             onDelete={handleDeleteRule}
             onToggle={handleToggleRule}
+            categoryGroups={categoryGroups}
+            onToggleCategory={handleToggleCategory}
             onLoadDefaults={handleLoadDefaults}
           />
         </TabsContent>
 
+        <TabsContent value="allowlist" className="mt-0 flex-1">
+          <ScrollArea className="h-[400px]">
+            <div className="p-4 space-y-3">
+              <div>
+                <h3 className="font-medium">Never mask</h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Values that no rule masks, e.g. your public support address or
+                  documentation IPs. Text entries match the whole value
+                  (ignoring case), regex entries must match the whole value.
+                </p>
+              </div>
+              <AllowlistEditor
+                entries={allowlist}
+                onChange={handleUpdateAllowlist}
+              />
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
         <TabsContent value="settings" className="mt-0 flex-1">
           {settings && (
-            <Settings settings={settings} onUpdate={handleUpdateSettings} />
+            <Settings
+              settings={settings}
+              rules={rules}
+              onUpdate={handleUpdateSettings}
+            />
           )}
         </TabsContent>
       </Tabs>
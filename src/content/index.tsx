@@ -1,24 +1,58 @@
 import { getSiteHandler } from "./sites";
+import { ResponseRehydrator } from "./rehydrate";
 import { storage } from "../shared/storage";
-import { sanitize, testPattern } from "../shared/sanitizer";
+import { RuleRunner } from "./ruleRunner";
 import { diffWordsWithSpace } from "diff";
 import type {
+  AllowlistEntry,
   SanitizationRule,
   ExtensionSettings,
+  ReplacementMap,
   ReplacementSession,
+  MatchSpan,
+  PseudonymVault,
+  RiskScore,
+  SanitizationResult,
+  SanitizeOptions,
 } from "../shared/types";
 import { CSS_PREFIX, OVERLAY_Z_INDEX } from "../shared/constants";
 import { devLog } from "../shared/utils";
+import {
+  createVault,
+  getVaultKey,
+  getVaultOriginals,
+  recordInVault,
+} from "../shared/vault";
+import {
+  applyComplianceProfile,
+  COMPLIANCE_PROFILES,
+  getFoundIdentifiers,
+  getUncoveredIdentifiers,
+} from "../shared/profiles";
+import { NO_RISK } from "../shared/risk";
+import { getRuleAction } from "../shared/sanitizer";
 
 // State
+// Rules as stored, and as evaluated (with the compliance profile applied)
+let storedRules: SanitizationRule[] = [];
 let rules: SanitizationRule[] = [];
+let allowlist: AllowlistEntry[] = [];
 let settings: ExtensionSettings | null = null;
 let overlayRoot: HTMLDivElement | null = null;
 let shadowRoot: ShadowRoot | null = null;
 let isAutoSanitizing = false;
 let replacementSession: ReplacementSession | null = null;
 let overlayHiddenByUser = false;
+let rehydrator: ResponseRehydrator | null = null;
+// Tokens used in the current conversation, kept beyond the replacement
+// session so numbering stays consistent and responses can be rehydrated
+let conversationVault: PseudonymVault = createVault();
+let conversationId: string | null = null;
 const currentHost = window.location.hostname;
+// Evaluates rules off the main thread, disabling rules that are too slow
+const ruleRunner = new RuleRunner(handleRuleTimeout);
+// Latest badge update, so results of outdated text are dropped
+let badgeUpdateId = 0;
 
 /**
  * Initialize the content script
@@ -32,11 +66,13 @@ async function init() {
 
   devLog(`Maskeraid: Initialized for ${handler.displayName}`);
 
-  // Load rules and settings
-  [rules, settings] = await Promise.all([
+  // Load rules, allowlist and settings
+  [storedRules, allowlist, settings] = await Promise.all([
     storage.getRules(),
+    storage.getAllowlist(),
     storage.getSettings(),
   ]);
+  rules = applyComplianceProfile(storedRules, settings?.complianceProfile);
 
   devLog("Maskeraid: Settings loaded", settings);
 
@@ -49,20 +85,19 @@ async function init() {
   // Subscribe to storage changes
   storage.subscribe((changes) => {
     if (changes.rules) {
-      rules = changes.rules;
-      updateBadge();
+      storedRules = changes.rules;
+      rules = applyComplianceProfile(storedRules, settings?.complianceProfile);
+      void updateBadge();
+    }
+    if (changes.allowlist) {
+      allowlist = changes.allowlist;
+      void updateBadge();
     }
     if (changes.settings) {
       settings = changes.settings;
       devLog("Maskeraid: Settings updated", changes.settings);
-      // Re-setup auto-sanitize if setting changed
-      if (changes.settings.autoSanitize !== undefined) {
-        if (changes.settings.autoSanitize) {
-          setupAutoSanitizeOnSubmit(handler);
-        }
-        // Note: We don't remove listeners when disabled for simplicity
-        // They just won't trigger due to the check in listeners
-      }
+      rules = applyComplianceProfile(storedRules, settings.complianceProfile);
+      // Submit listeners are always set up, they check autoSanitize
       // Re-create overlay if showOverlay changed
       if (changes.settings.showOverlay !== undefined) {
         if (changes.settings.showOverlay) {
@@ -77,8 +112,25 @@ async function init() {
         }
       }
       // Recompute visibility if overlay mode changed
-      if (changes.settings.overlayMode !== undefined) {
-        updateBadge();
+      if (
+        changes.settings.overlayMode !== undefined ||
+        changes.settings.complianceProfile !== undefined
+      ) {
+        void updateBadge();
+      }
+      if (changes.settings.rehydrateResponses !== undefined) {
+        rehydrator?.setEnabled(changes.settings.rehydrateResponses);
+      }
+    }
+    if (changes.vaults) {
+      // Vaults were cleared in the popup (or this one was dropped as least
+      // recently used): forget the tokens so they aren't written back
+      const isCleared = conversationId
+        ? !changes.vaults[getVaultKey(handler.siteName, conversationId)]
+        : Object.keys(changes.vaults).length === 0;
+      if (isCleared) {
+        conversationVault = createVault();
+        rehydrator?.setOriginals(getVaultOriginals(conversationVault));
       }
     }
     if (changes.overlayPositions) {
@@ -93,6 +145,16 @@ async function init() {
   // Initialize handler
   handler.init();
 
+  // Show original values for tokens echoed back in responses
+  rehydrator = new ResponseRehydrator(handler);
+  rehydrator.setEnabled(settings?.rehydrateResponses !== false);
+  rehydrator.start();
+
+  // Load the vault for this conversation and follow in-app navigation
+  conversationId = handler.getConversationId();
+  await loadConversationVault(handler);
+  setInterval(() => void syncConversation(handler), 1000);
+
   // Create overlay
   if (settings?.showOverlay !== false) {
     devLog("Maskeraid: Creating overlay...");
@@ -102,10 +164,8 @@ async function init() {
   // Watch for textarea changes for auto-sanitize
   observeTextarea(handler);
 
-  // Set up auto-sanitize on submit if enabled
-  if (settings?.autoSanitize) {
-    setupAutoSanitizeOnSubmit(handler);
-  }
+  // Set up auto-sanitize and warn/block rules on submit
+  setupAutoSanitizeOnSubmit(handler);
 }
 
 /**
@@ -289,7 +349,7 @@ function createOverlay(handler: ReturnType<typeof getSiteHandler>) {
   window.addEventListener("beforeunload", cleanup);
 
   // Ensure correct initial visibility/presentation
-  updateBadge();
+  void updateBadge();
 }
 
 /**
@@ -375,7 +435,7 @@ async function handleSanitizeClick(handler: ReturnType<typeof getSiteHandler>) {
     return;
   }
 
-  const result = sanitize(text, rules);
+  const result = await sanitizeInConversation(text);
 
   // if (!result.hasChanges) {
   //   showToast('No matches found');
@@ -428,7 +488,7 @@ async function handleQuickApplyClick(
     return;
   }
 
-  const result = sanitize(text, rules);
+  const result = await sanitizeInConversation(text);
   if (!result.hasChanges) {
     showToast("No matches found");
     return;
@@ -460,61 +520,162 @@ function applySanitization(
     replacementMaps: appliedRules.map((r) => r.replacementMap),
     timestamp: Date.now(),
   };
+  rememberReplacements(appliedRules);
 
   handler.setInputText(sanitizedText);
   showToast(`Masked! ${appliedRules.length} rule(s) applied`);
 
-  updateQuickActions(0);
+  updateQuickActions(NO_RISK);
   updateOverlayVisibility(0, true);
 }
 
+/**
+ * Record applied mappings in the conversation vault
+ */
+function rememberReplacements(
+  appliedRules: { rule: SanitizationRule; replacementMap: ReplacementMap }[]
+): void {
+  if (appliedRules.length === 0) return;
+
+  recordInVault(conversationVault, appliedRules);
+  rehydrator?.setOriginals(getVaultOriginals(conversationVault));
+
+  const handler = getSiteHandler();
+  if (handler && conversationId) {
+    void storage.setVault(
+      getVaultKey(handler.siteName, conversationId),
+      conversationVault
+    );
+  }
+}
+
+/**
+ * Load the persisted vault of the current conversation
+ */
+async function loadConversationVault(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>
+): Promise<void> {
+  conversationVault =
+    (conversationId &&
+      (await storage.getVault(
+        getVaultKey(handler.siteName, conversationId)
+      ))) ||
+    createVault();
+  rehydrator?.setOriginals(getVaultOriginals(conversationVault));
+}
+
+/**
+ * Switch vaults when the user navigates to another conversation
+ */
+async function syncConversation(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>
+): Promise<void> {
+  const id = handler.getConversationId();
+  if (id === conversationId) return;
+
+  const previousId = conversationId;
+  conversationId = id;
+  devLog("Maskeraid: Conversation changed", { from: previousId, to: id });
+
+  // A new chat just got its URL: keep what was masked before the first send
+  if (previousId === null && id !== null) {
+    const key = getVaultKey(handler.siteName, id);
+    if (
+      Object.keys(conversationVault.entries).length > 0 &&
+      !(await storage.getVault(key))
+    ) {
+      await storage.setVault(key, conversationVault);
+      return;
+    }
+  }
+
+  await loadConversationVault(handler);
+}
+
+/**
+ * Sanitize text using the current conversation's vault
+ */
+function sanitizeInConversation(
+  text: string,
+  ruleSet: SanitizationRule[] = rules,
+  options: Omit<SanitizeOptions, "onRuleStart"> = {}
+): Promise<SanitizationResult> {
+  return ruleRunner.sanitize(text, ruleSet, {
+    ...options,
+    vault: conversationVault,
+    allowlist,
+  });
+}
+
 /**
  * Sanitize text with specific rules
  */
 function sanitizeWithRules(
   text: string,
-  selectedRules: SanitizationRule[]
-): ReturnType<typeof sanitize> {
-  // Temporarily enable selected rules and disable others
-  const originalEnabledStates = rules.map((r) => r.enabled);
-  rules.forEach((r) => {
-    r.enabled = selectedRules.some((sr) => sr.id === r.id);
-  });
-  const result = sanitize(text, rules);
-  // Restore original enabled states
-  rules.forEach((r, i) => {
-    r.enabled = originalEnabledStates[i];
-  });
-  return result;
+  selectedRules: SanitizationRule[],
+  options: Omit<SanitizeOptions, "onRuleStart"> = {}
+): Promise<SanitizationResult> {
+  // Keep the rule order (it breaks overlap ties), enable only the selected
+  const selectedIds = new Set(selectedRules.map((r) => r.id));
+  const ruleSet = rules.map((r) => ({ ...r, enabled: selectedIds.has(r.id) }));
+  return sanitizeInConversation(text, ruleSet, options);
 }
 
 /**
  * Find all rules that match the text
  */
-function findMatchingRules(text: string): Array<{
-  rule: SanitizationRule;
-  matchCount: number;
-}> {
-  const matchingRules: Array<{ rule: SanitizationRule; matchCount: number }> =
-    [];
-
-  for (const rule of rules) {
-    if (!rule.enabled) continue;
+async function findMatchingRules(text: string): Promise<
+  Array<{
+    rule: SanitizationRule;
+    matchCount: number;
+  }>
+> {
+  // Rules that warn or block don't mask, they're enforced on submit
+  const enabledRules = rules.filter(
+    (rule) => rule.enabled && getRuleAction(rule) === "mask"
+  );
+  const counts = await ruleRunner.countMatches(text, enabledRules, allowlist);
 
-    const { count } = testPattern(text, rule.pattern, rule.isRegex, rule.flags);
+  return enabledRules
+    .filter((rule) => (counts[rule.id] ?? 0) > 0)
+    .map((rule) => ({ rule, matchCount: counts[rule.id] }));
+}
 
-    if (count > 0) {
-      matchingRules.push({ rule, matchCount: count });
-    }
+/**
+ * Find rules with matches that were left unmasked because their context
+ * condition doesn't hold
+ */
+async function findLowConfidenceRules(
+  text: string
+): Promise<Array<{ rule: SanitizationRule; values: string[] }>> {
+  const byRule = new Map<
+    string,
+    { rule: SanitizationRule; values: string[] }
+  >();
+  const result = await sanitizeInConversation(text);
+  for (const span of result.lowConfidence) {
+    const entry = byRule.get(span.rule.id) ?? { rule: span.rule, values: [] };
+    entry.values.push(span.value);
+    byRule.set(span.rule.id, entry);
   }
+  return [...byRule.values()];
+}
 
-  return matchingRules;
+/**
+ * Disable a rule that exceeded the time budget and flag it in the popup
+ */
+function handleRuleTimeout(rule: SanitizationRule): void {
+  devLog(`Maskeraid: Rule "${rule.name}" was too slow and was disabled`);
+  const updates = { enabled: false, timedOutAt: Date.now() };
+  rules = rules.map((r) => (r.id === rule.id ? { ...r, ...updates } : r));
+  void storage.updateRule(rule.id, updates);
+  showToast(`Rule "${rule.name}" was too slow and has been disabled`);
 }
 
 /**
  * Show sanitization preview modal
  */
-function showPreview(
+async function showPreview(
   original: string,
   sanitized: string,
   _appliedRules: { rule: SanitizationRule; matchCount: number }[],
@@ -528,17 +689,38 @@ function showPreview(
     replacementMap: Record<string, string>;
   }>;
 }> {
+  if (!shadowRoot) return { action: "cancel" };
+
+  // Find all matching rules (only show rules that match)
+  const allMatchingRules = await findMatchingRules(original);
+  // Out-of-context matches are offered, but not masked by default
+  const lowConfidenceRules = showRevertOption
+    ? []
+    : await findLowConfidenceRules(original);
+
+  const complianceReport = showRevertOption
+    ? ""
+    : renderComplianceReport(allMatchingRules);
+
+  // Initial sanitization with all rules selected
+  let currentResult = await sanitizeWithRules(
+    original,
+    allMatchingRules.map((r) => r.rule)
+  );
+
   return new Promise((resolve) => {
     if (!shadowRoot) {
       resolve({ action: "cancel" });
       return;
     }
 
-    // Find all matching rules (only show rules that match)
-    const allMatchingRules = findMatchingRules(original);
-
     // If no matching rules, fall back to original behavior
-    if (allMatchingRules.length === 0 && !showRevertOption) {
+    if (
+      allMatchingRules.length === 0 &&
+      lowConfidenceRules.length === 0 &&
+      !complianceReport &&
+      !showRevertOption
+    ) {
       const diffColumns = renderDiffColumns(original, sanitized);
       const modal = document.createElement("div");
       modal.className = `${CSS_PREFIX}-modal`;
@@ -588,20 +770,28 @@ function showPreview(
 
     // Track selected rules (all selected by default)
     const selectedRuleIds = new Set(allMatchingRules.map((r) => r.rule.id));
+    // Rules whose low-confidence matches are masked anyway (none by default)
+    const selectedLowConfidenceIds = new Set<string>();
 
-    // Initial sanitization with all rules selected
-    let currentResult = sanitizeWithRules(
-      original,
-      allMatchingRules.map((r) => r.rule)
-    );
     let currentSanitized = currentResult.sanitizedText;
-
-    const updatePreview = () => {
-      const rulesToApply = allMatchingRules
-        .filter((r) => selectedRuleIds.has(r.rule.id))
+    // Latest preview update, so toggling quickly can't apply an older result
+    let previewUpdateId = 0;
+
+    const updatePreview = async () => {
+      const updateId = ++previewUpdateId;
+      const rulesToApply = [...allMatchingRules, ...lowConfidenceRules]
+        .filter(
+          (r) =>
+            selectedRuleIds.has(r.rule.id) ||
+            selectedLowConfidenceIds.has(r.rule.id)
+        )
         .map((r) => r.rule);
 
-      currentResult = sanitizeWithRules(original, rulesToApply);
+      const result = await sanitizeWithRules(original, rulesToApply, {
+        maskLowConfidence: [...selectedLowConfidenceIds],
+      });
+      if (updateId !== previewUpdateId) return;
+      currentResult = result;
       currentSanitized = currentResult.sanitizedText;
 
       const diffColumns = renderDiffColumns(original, currentSanitized);
@@ -689,6 +879,36 @@ function showPreview(
           `
               : ""
           }
+          ${
+            lowConfidenceRules.length > 0
+              ? `
+            <div class="${CSS_PREFIX}-low-confidence">
+              <h4>Low Confidence (${lowConfidenceRules.length})</h4>
+              <p>Not masked: these matches lack the expected nearby context. Select a rule to mask them anyway.</p>
+              <div class="${CSS_PREFIX}-rules-list">
+                ${lowConfidenceRules
+                  .map(
+                    ({ rule, values }) => `
+                  <label class="${CSS_PREFIX}-rule-item">
+                    <input type="checkbox" data-low-confidence-rule-id="${
+                      rule.id
+                    }" />
+                    <span class="${CSS_PREFIX}-rule-name">${escapeHtml(
+                      rule.name
+                    )}</span>
+                    <span class="${CSS_PREFIX}-rule-count">${
+                      values.length
+                    } match${values.length > 1 ? "es" : ""}</span>
+                  </label>
+                `
+                  )
+                  .join("")}
+              </div>
+            </div>
+          `
+              : ""
+          }
+          ${complianceReport}
         </div>
         <div class="${CSS_PREFIX}-modal-actions">
           ${
@@ -746,14 +966,31 @@ function showPreview(
             selectedRuleIds.delete(ruleId);
           }
 
-          updatePreview();
+          void updatePreview();
         });
       });
     }
 
+    modal
+      .querySelectorAll<HTMLInputElement>(`input[data-low-confidence-rule-id]`)
+      .forEach((checkbox) => {
+        checkbox.addEventListener("change", () => {
+          const ruleId = checkbox.dataset.lowConfidenceRuleId;
+          if (!ruleId) return;
+
+          if (checkbox.checked) {
+            selectedLowConfidenceIds.add(ruleId);
+          } else {
+            selectedLowConfidenceIds.delete(ruleId);
+          }
+
+          void updatePreview();
+        });
+      });
+
     // Initial update to ensure checkboxes are synced
     if (allMatchingRules.length > 0) {
-      updatePreview();
+      void updatePreview();
     }
 
     // Handle button clicks
@@ -763,8 +1000,10 @@ function showPreview(
 
       if (action === "apply" || action === "keep") {
         // Get selected rules for result with replacementMap from current result
-        const selectedAppliedRules = currentResult.appliedRules.filter((ar) =>
-          selectedRuleIds.has(ar.rule.id)
+        const selectedAppliedRules = currentResult.appliedRules.filter(
+          (ar) =>
+            selectedRuleIds.has(ar.rule.id) ||
+            selectedLowConfidenceIds.has(ar.rule.id)
         );
 
         modal.remove();
@@ -787,6 +1026,56 @@ function showPreview(
   });
 }
 
+/**
+ * Summary of the compliance profile for the preview: identifier classes
+ * found in the text and classes the rules can't cover
+ */
+function renderComplianceReport(
+  matchingRules: { rule: SanitizationRule; matchCount: number }[]
+): string {
+  const profileId = settings?.complianceProfile;
+  if (!profileId) return "";
+
+  const matchCounts = Object.fromEntries(
+    matchingRules.map(({ rule, matchCount }) => [rule.id, matchCount])
+  );
+  const found = getFoundIdentifiers(matchCounts, profileId);
+  const uncovered = getUncoveredIdentifiers(rules, profileId);
+
+  return `
+    <div class="${CSS_PREFIX}-compliance">
+      <h4>${escapeHtml(COMPLIANCE_PROFILES[profileId].name)}</h4>
+      <p>${
+        found.length > 0
+          ? `Found: ${found
+              .map(
+                ({ identifier, matchCount }) =>
+                  `${escapeHtml(identifier.name)} (${matchCount})`
+              )
+              .join(", ")}`
+          : "No identifiers found"
+      }</p>
+      ${
+        uncovered.length > 0
+          ? `
+        <p class="${CSS_PREFIX}-compliance-warning">Check by hand, not covered by the rules:</p>
+        <ul>
+          ${uncovered
+            .map(
+              (identifier) =>
+                `<li><strong>${escapeHtml(identifier.name)}</strong>${
+                  identifier.note ? ` - ${escapeHtml(identifier.note)}` : ""
+                }</li>`
+            )
+            .join("")}
+        </ul>
+      `
+          : ""
+      }
+    </div>
+  `;
+}
+
 function renderDiffColumns(
   original: string,
   sanitized: string
@@ -834,8 +1123,8 @@ function revertSanitization(handler: ReturnType<typeof getSiteHandler>) {
   replacementSession = null;
 
   showToast("Reverted to original text");
-  updateQuickActions(0);
-  updateBadge();
+  updateQuickActions(NO_RISK);
+  void updateBadge();
 }
 
 /**
@@ -927,12 +1216,13 @@ function showToast(message: string) {
 /**
  * Update the badge count based on potential matches
  */
-function updateBadge() {
+async function updateBadge() {
   if (!shadowRoot) return;
 
   const handler = getSiteHandler();
   if (!handler) return;
 
+  const updateId = ++badgeUpdateId;
   const text = handler.getInputText();
   if (!text.trim()) {
     hideBadge();
@@ -940,28 +1230,29 @@ function updateBadge() {
     return;
   }
 
-  const result = sanitize(text, rules);
-  let totalMatches = 0;
-
-  if (result.appliedRules.length > 0) {
-    totalMatches = result.appliedRules.reduce(
-      (sum, r) => sum + r.matchCount,
-      0
-    );
-    updateOverlayVisibility(totalMatches, true);
-  } else {
-    updateOverlayVisibility(0, true);
+  // Only the region around the latest edit is re-scanned
+  let risk: RiskScore;
+  try {
+    risk = await ruleRunner.detect(text, rules, allowlist);
+  } catch (e) {
+    // E.g. the worker was terminated: clear the badge rather than leave a
+    // stale count
+    devLog("Maskeraid: Badge update failed", e);
+    if (updateId === badgeUpdateId) hideBadge();
+    return;
   }
+  if (updateId !== badgeUpdateId) return;
+  updateOverlayVisibility(risk.matchCount, true);
 
-  updateQuickActions(totalMatches);
+  updateQuickActions(risk);
 }
 
 function hideBadge() {
   if (!shadowRoot) return;
-  updateQuickActions(0);
+  updateQuickActions(NO_RISK);
 }
 
-function updateQuickActions(totalMatches: number): void {
+function updateQuickActions(risk: RiskScore): void {
   if (!shadowRoot) return;
 
   const actionsGroup = shadowRoot.querySelector<HTMLElement>(
@@ -981,15 +1272,19 @@ function updateQuickActions(totalMatches: number): void {
     return;
   }
 
-  const hasMatches = totalMatches > 0;
+  const hasMatches = risk.matchCount > 0;
   const hasSession = Boolean(replacementSession);
 
   if (hasMatches) {
     badgeCount.style.display = "inline-flex";
-    badgeCount.textContent = String(totalMatches);
+    badgeCount.textContent = String(risk.matchCount);
+    badgeCount.dataset.risk = risk.level;
+    badgeCount.title = formatRiskBreakdown(risk);
   } else {
     badgeCount.style.display = "none";
     badgeCount.textContent = "";
+    delete badgeCount.dataset.risk;
+    badgeCount.removeAttribute("title");
   }
 
   // Show accept if matches found (and typically > 0, but original logic was > 1, preserving for now or adjusting?)
@@ -1000,6 +1295,17 @@ function updateQuickActions(totalMatches: number): void {
   actionsGroup.style.display = hasMatches || hasSession ? "flex" : "none";
 }
 
+/**
+ * Badge tooltip: the risk level and score, then each rule's matches
+ */
+function formatRiskBreakdown(risk: RiskScore): string {
+  const lines = risk.breakdown.map(
+    (factor) =>
+      `${factor.ruleName}: ${factor.matchCount} (${factor.severity}, +${factor.points})`
+  );
+  return [`Risk: ${risk.level} (${risk.score}/100)`, ...lines].join("\n");
+}
+
 function updateOverlayVisibility(totalMatches: number, hasText: boolean): void {
   if (!shadowRoot || !overlayRoot) return;
   const container = shadowRoot.querySelector<HTMLElement>(
@@ -1035,7 +1341,7 @@ function updateOverlayVisibility(totalMatches: number, hasText: boolean): void {
 }
 
 /**
- * Set up auto-sanitize on submit
+ * Set up auto-sanitize and warn/block rules on submit
  */
 function setupAutoSanitizeOnSubmit(handler: ReturnType<typeof getSiteHandler>) {
   if (!handler) return;
@@ -1059,156 +1365,367 @@ function setupAutoSanitizeOnSubmit(handler: ReturnType<typeof getSiteHandler>) {
     setupSubmitButtonListener(submitButton, handler);
   }
 
-  // Set up keyboard shortcut listener on textarea
+  // Set up Enter key and form submit listeners
   setupKeyboardShortcutListener(handler);
+  setupFormSubmitListener(handler);
 }
 
 /**
- * Attach listener to submit button
+ * Whether a send has to be checked before it goes through
  */
-function setupSubmitButtonListener(
-  button: HTMLElement,
+function needsSubmitCheck(
   handler: NonNullable<ReturnType<typeof getSiteHandler>>
-) {
-  if (button.hasAttribute("data-sanitizer-listener")) {
-    return;
-  }
+): boolean {
+  if (isAutoSanitizing) return false;
+  if (!settings?.autoSanitize && !hasSubmitChecks()) return false;
+  return handler.getInputText().trim().length > 0;
+}
 
-  button.setAttribute("data-sanitizer-listener", "true");
+/**
+ * Stop a send before the page's own listeners see it, so it can be checked
+ * first
+ */
+function holdSubmit(e: Event) {
+  e.preventDefault();
+  e.stopImmediatePropagation();
+}
 
-  button.addEventListener("click", async (e) => {
-    if (isAutoSanitizing) {
+/**
+ * Check the prompt against warn/block rules and auto-sanitize it, then send
+ * it with `submit` if it may go through
+ *
+ * If the check fails, the prompt is only sent when no rule warns or
+ * blocks; otherwise it could slip past them unchecked.
+ */
+async function checkAndSubmit(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>,
+  submit: () => void
+) {
+  // Our own listeners let the re-sent prompt through
+  const resubmit = () => {
+    isAutoSanitizing = true;
+    try {
+      submit();
+    } finally {
       isAutoSanitizing = false;
-      return;
     }
+  };
 
-    if (!settings?.autoSanitize) return;
-
-    e.preventDefault();
-    e.stopPropagation();
-
-    const text = handler.getInputText();
-    if (!text.trim()) {
-      showToast("No text to mask");
-      isAutoSanitizing = false;
-      return;
+  try {
+    await sanitizeBeforeSubmit(handler, resubmit);
+  } catch (e) {
+    devLog("Maskeraid: Checking the prompt failed", e);
+    if (hasSubmitChecks()) {
+      showToast("Couldn't check the prompt, submission blocked");
+    } else {
+      resubmit();
     }
+  }
+}
 
-    const result = sanitize(text, rules);
+/**
+ * Enforce warn/block rules and show the auto-sanitize preview, then call
+ * `resubmit` unless the send was blocked or cancelled
+ */
+async function sanitizeBeforeSubmit(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>,
+  resubmit: () => void
+) {
+  const text = handler.getInputText();
+  const result = await sanitizeInConversation(text);
+  if (!(await confirmRuleActions(result))) return;
 
-    if (!result.hasChanges) {
-      showToast("No PII found, submitting...");
-      isAutoSanitizing = false;
-      button.click();
-      return;
-    }
+  if (!settings?.autoSanitize || !result.hasChanges) {
+    if (settings?.autoSanitize) showToast("No PII found, submitting...");
+    resubmit();
+    return;
+  }
 
-    // Show preview and confirm
-    const previewResult = await showPreview(
-      text,
-      result.sanitizedText,
-      result.appliedRules
+  // Show preview and confirm
+  const previewResult = await showPreview(
+    text,
+    result.sanitizedText,
+    result.appliedRules
+  );
+
+  if (
+    previewResult.action === "apply" &&
+    previewResult.sanitizedText &&
+    previewResult.appliedRules
+  ) {
+    handler.setInputText(previewResult.sanitizedText);
+    rememberReplacements(previewResult.appliedRules);
+    showToast(
+      `Auto-masked! ${previewResult.appliedRules.length} rule(s) applied`
     );
 
-    if (
-      previewResult.action === "apply" &&
-      previewResult.sanitizedText &&
-      previewResult.appliedRules
-    ) {
-      handler.setInputText(previewResult.sanitizedText);
-      showToast(
-        `Auto-masked! ${previewResult.appliedRules.length} rule(s) applied`
-      );
+    // Re-send after a short delay to allow state to update
+    setTimeout(resubmit, 100);
+  } else {
+    showToast("Submission cancelled");
+  }
+}
 
-      // Re-trigger the click after a short delay to allow state to update
-      setTimeout(() => {
-        isAutoSanitizing = true;
-        button.click();
-      }, 100);
-    } else {
-      showToast("Submission cancelled");
-    }
-  });
+/**
+ * Send the prompt through the site's submit button, or its form if the
+ * button can't be found
+ */
+function submitPrompt(handler: NonNullable<ReturnType<typeof getSiteHandler>>) {
+  const submitButton = handler.getSubmitButton();
+  if (submitButton) {
+    submitButton.click();
+    return;
+  }
+  handler.getTextarea()?.closest("form")?.requestSubmit();
 }
 
 /**
- * Set up keyboard shortcut listener (Cmd/Ctrl+Enter)
+ * Attach listener to submit button
  */
-function setupKeyboardShortcutListener(
+function setupSubmitButtonListener(
+  button: HTMLElement,
   handler: NonNullable<ReturnType<typeof getSiteHandler>>
 ) {
-  const textarea = handler.getTextarea();
-  if (!textarea) return;
+  if (button.hasAttribute("data-sanitizer-listener")) {
+    return;
+  }
 
-  textarea.addEventListener("keydown", async (e) => {
-    if (isAutoSanitizing) {
-      isAutoSanitizing = false;
-      return;
-    }
+  button.setAttribute("data-sanitizer-listener", "true");
 
-    // Check for Cmd+Enter or Ctrl+Enter
-    const isCmdOrCtrl = e.metaKey || e.ctrlKey;
-    if (isCmdOrCtrl && e.key === "Enter") {
-      if (!settings?.autoSanitize) return;
+  button.addEventListener(
+    "click",
+    (e) => {
+      if (!needsSubmitCheck(handler)) return;
 
-      e.preventDefault();
+      holdSubmit(e);
+      void checkAndSubmit(handler, () => button.click());
+    },
+    true
+  );
+}
 
-      const text = handler.getInputText();
-      if (!text.trim()) {
-        showToast("No text to mask");
-        return;
-      }
+/**
+ * Set up Enter key listener (plain Enter and Cmd/Ctrl+Enter send)
+ *
+ * Listens on the window in the capture phase so it runs before the site's
+ * own key handlers, which would send the prompt right away.
+ */
+function setupKeyboardShortcutListener(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>
+) {
+  window.addEventListener(
+    "keydown",
+    (e) => {
+      if (e.key !== "Enter" || e.shiftKey || e.altKey) return;
+
+      // Enter confirms an IME composition instead of sending
+      if (e.isComposing || e.keyCode === 229) return;
+
+      const textarea = handler.getTextarea();
+      if (!textarea || !textarea.contains(e.target as Node)) return;
+      if (!needsSubmitCheck(handler)) return;
+
+      holdSubmit(e);
+      void checkAndSubmit(handler, () => submitPrompt(handler));
+    },
+    true
+  );
+}
 
-      const result = sanitize(text, rules);
+/**
+ * Set up form submit listener, for sites that send through a form
+ */
+function setupFormSubmitListener(
+  handler: NonNullable<ReturnType<typeof getSiteHandler>>
+) {
+  window.addEventListener(
+    "submit",
+    (e) => {
+      const form = e.target as HTMLFormElement;
+      if (!form.contains(handler.getTextarea())) return;
+      if (!needsSubmitCheck(handler)) return;
+
+      holdSubmit(e);
+      void checkAndSubmit(handler, () => form.requestSubmit());
+    },
+    true
+  );
+}
 
-      if (!result.hasChanges) {
-        showToast("No PII found, submitting...");
-        return;
-      }
+/**
+ * Whether an enabled rule warns or blocks, so sends have to be checked even
+ * without auto-sanitize
+ */
+function hasSubmitChecks(): boolean {
+  return rules.some((rule) => rule.enabled && getRuleAction(rule) !== "mask");
+}
 
-      // Show preview and confirm
-      const previewResult = await showPreview(
-        text,
-        result.sanitizedText,
-        result.appliedRules
-      );
+/**
+ * Enforce warn and block rules before a prompt is sent: a prompt with
+ * matches of a block rule isn't sent, matches of a warn rule need a
+ * confirmation. Returns whether the prompt may be sent.
+ */
+async function confirmRuleActions(
+  result: SanitizationResult
+): Promise<boolean> {
+  if (result.flagged.length === 0) return true;
 
-      if (
-        previewResult.action === "apply" &&
-        previewResult.sanitizedText &&
-        previewResult.appliedRules
-      ) {
-        handler.setInputText(previewResult.sanitizedText);
-        showToast(
-          `Auto-masked! ${previewResult.appliedRules.length} rule(s) applied`
-        );
+  const isBlocked = result.flagged.some(
+    (span) => getRuleAction(span.rule) === "block"
+  );
+  const confirmed = await showRuleActionDialog(
+    result.originalText,
+    result.flagged,
+    isBlocked
+  );
+  if (!confirmed) {
+    showToast(isBlocked ? "Submission blocked" : "Submission cancelled");
+  }
+  return confirmed;
+}
 
-        // Trigger submit button click after delay
-        setTimeout(() => {
-          const submitButton = handler.getSubmitButton();
-          if (submitButton) {
-            isAutoSanitizing = true;
-            submitButton.click();
-          }
-        }, 100);
+/**
+ * Explain why a prompt is blocked, or ask to send it despite warnings,
+ * with the flagged matches highlighted. Resolves true when sending is
+ * confirmed (never for a blocked prompt).
+ */
+function showRuleActionDialog(
+  text: string,
+  flagged: MatchSpan[],
+  isBlocked: boolean
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    // Without the overlay there's nowhere to show the dialog, so fall back
+    // to the browser's own
+    if (!shadowRoot) {
+      const ruleNames = [...new Set(flagged.map(({ rule }) => rule.name))];
+      if (isBlocked) {
+        window.alert(
+          `Prompt blocked: it contains data that must not be sent (${ruleNames.join(", ")}).`
+        );
+        resolve(false);
       } else {
-        showToast("Submission cancelled");
+        resolve(
+          window.confirm(
+            `This prompt contains data you asked to be warned about (${ruleNames.join(", ")}). Send it anyway, without masking?`
+          )
+        );
       }
+      return;
+    }
+
+    const byRule = new Map<string, { rule: SanitizationRule; count: number }>();
+    for (const { rule } of flagged) {
+      const entry = byRule.get(rule.id) ?? { rule, count: 0 };
+      entry.count++;
+      byRule.set(rule.id, entry);
     }
+
+    const modal = document.createElement("div");
+    modal.className = `${CSS_PREFIX}-modal`;
+    modal.innerHTML = `
+      <div class="${CSS_PREFIX}-modal-backdrop"></div>
+      <div class="${CSS_PREFIX}-modal-content">
+        <h3>${isBlocked ? "Prompt Blocked" : "Send Anyway?"}</h3>
+        <div class="${CSS_PREFIX}-modal-body">
+          <p class="${CSS_PREFIX}-rule-action-message">${
+            isBlocked
+              ? "This prompt contains data that must not be sent, not even masked. Remove the highlighted matches and try again."
+              : "This prompt contains data you asked to be warned about. It will be sent as-is, without masking."
+          }</p>
+          <ul class="${CSS_PREFIX}-rule-action-list">
+            ${[...byRule.values()]
+              .map(
+                ({ rule, count }) => `
+              <li>
+                <span class="${CSS_PREFIX}-rule-action-${getRuleAction(
+                  rule
+                )}">${getRuleAction(rule) === "block" ? "Blocked" : "Warning"}</span>
+                <span class="${CSS_PREFIX}-rule-name">${escapeHtml(
+                  rule.name
+                )}</span>
+                <span class="${CSS_PREFIX}-rule-count">${count} match${
+                  count > 1 ? "es" : ""
+                }</span>
+              </li>
+            `
+              )
+              .join("")}
+          </ul>
+          <pre class="${CSS_PREFIX}-diff-text">${renderFlaggedText(
+            text,
+            flagged
+          )}</pre>
+        </div>
+        <div class="${CSS_PREFIX}-modal-actions">
+          ${
+            isBlocked
+              ? `<button class="${CSS_PREFIX}-btn ${CSS_PREFIX}-btn-primary" data-action="cancel">Edit Prompt</button>`
+              : `
+              <button class="${CSS_PREFIX}-btn ${CSS_PREFIX}-btn-secondary" data-action="cancel">Cancel</button>
+              <button class="${CSS_PREFIX}-btn ${CSS_PREFIX}-btn-danger" data-action="send">Send Anyway</button>
+            `
+          }
+        </div>
+      </div>
+    `;
+
+    shadowRoot.appendChild(modal);
+    modal.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.dataset.action;
+      if (action === "send") {
+        modal.remove();
+        resolve(true);
+      } else if (
+        action === "cancel" ||
+        target.classList.contains(`${CSS_PREFIX}-modal-backdrop`)
+      ) {
+        modal.remove();
+        resolve(false);
+      }
+    });
   });
 }
 
+/**
+ * The prompt as HTML with flagged matches highlighted by their rule's action
+ */
+function renderFlaggedText(text: string, flagged: MatchSpan[]): string {
+  let html = "";
+  let lastIndex = 0;
+  for (const span of flagged) {
+    html += escapeHtml(text.slice(lastIndex, span.start));
+    html += `<mark class="${CSS_PREFIX}-flagged-${getRuleAction(
+      span.rule
+    )}">${escapeHtml(text.slice(span.start, span.end))}</mark>`;
+    lastIndex = span.end;
+  }
+  return html + escapeHtml(text.slice(lastIndex));
+}
+
 /**
  * Observe textarea for input changes
  */
 function observeTextarea(handler: ReturnType<typeof getSiteHandler>) {
   if (!handler) return;
 
-  // Debounced update
+  // Debounced update, run when the page is idle so typing in a long
+  // prompt stays responsive
   let timeout: ReturnType<typeof setTimeout>;
+  let idleCallback: number | undefined;
   const debouncedUpdate = () => {
     clearTimeout(timeout);
-    timeout = setTimeout(updateBadge, 300);
+    if (idleCallback !== undefined) cancelIdleCallback(idleCallback);
+    timeout = setTimeout(() => {
+      idleCallback = requestIdleCallback(
+        () => {
+          idleCallback = undefined;
+          void updateBadge();
+        },
+        { timeout: 1000 }
+      );
+    }, 300);
   };
 
   // Clear session on input (user made changes)
@@ -1235,7 +1752,7 @@ function observeTextarea(handler: ReturnType<typeof getSiteHandler>) {
     if (textarea) {
       textarea.addEventListener("input", handleInput);
       textarea.addEventListener("keyup", handleInput);
-      updateBadge();
+      void updateBadge();
     }
   });
 
@@ -1257,6 +1774,7 @@ function observeTextarea(handler: ReturnType<typeof getSiteHandler>) {
  */
 function cleanup() {
   replacementSession = null;
+  ruleRunner.dispose();
 }
 
 /**
@@ -1403,6 +1921,23 @@ function getOverlayStyles(): string {
       font-size: 11px;
       font-weight: 700;
       line-height: 1;
+      cursor: help;
+    }
+
+    /* Badge colors by risk level */
+    .${CSS_PREFIX}-badge-count[data-risk="low"] {
+      background: var(--muted);
+      color: var(--muted-foreground);
+    }
+
+    .${CSS_PREFIX}-badge-count[data-risk="high"] {
+      background: oklch(0.77 0.16 70.08);
+      color: oklch(0.28 0.07 46);
+    }
+
+    .${CSS_PREFIX}-badge-count[data-risk="critical"] {
+      background: var(--destructive);
+      color: var(--destructive-foreground);
     }
 
     /* Icon Buttons (Accept, Revert, Close) */
@@ -1638,6 +2173,110 @@ function getOverlayStyles(): string {
       white-space: nowrap;
     }
 
+    .${CSS_PREFIX}-low-confidence {
+      margin-top: 16px;
+      padding: 12px 16px;
+      border: 1px dashed var(--border);
+      border-radius: 8px;
+    }
+
+    .${CSS_PREFIX}-low-confidence h4 {
+      margin: 0 0 4px;
+      font-size: 13px;
+      font-weight: 600;
+      color: var(--foreground);
+    }
+
+    .${CSS_PREFIX}-low-confidence p {
+      margin: 0 0 8px;
+      font-size: 12px;
+      color: var(--muted-foreground);
+    }
+
+    .${CSS_PREFIX}-compliance {
+      margin-top: 16px;
+      padding: 12px 16px;
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      font-size: 12px;
+      color: var(--muted-foreground);
+    }
+
+    .${CSS_PREFIX}-compliance h4 {
+      margin: 0 0 4px;
+      font-size: 13px;
+      font-weight: 600;
+      color: var(--foreground);
+    }
+
+    .${CSS_PREFIX}-compliance p {
+      margin: 0 0 8px;
+    }
+
+    .${CSS_PREFIX}-compliance .${CSS_PREFIX}-compliance-warning {
+      margin: 0 0 4px;
+      color: var(--destructive);
+      font-weight: 500;
+    }
+
+    .${CSS_PREFIX}-compliance ul {
+      margin: 0;
+      padding-left: 18px;
+    }
+
+    .${CSS_PREFIX}-rule-action-message {
+      margin: 0 0 12px;
+      font-size: 13px;
+      color: var(--foreground);
+    }
+
+    .${CSS_PREFIX}-rule-action-list {
+      margin: 0 0 12px;
+      padding: 0;
+      list-style: none;
+      font-size: 12px;
+    }
+
+    .${CSS_PREFIX}-rule-action-list li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 0;
+    }
+
+    .${CSS_PREFIX}-rule-action-block,
+    .${CSS_PREFIX}-rule-action-warn {
+      padding: 1px 6px;
+      border-radius: 4px;
+      font-size: 11px;
+      font-weight: 600;
+    }
+
+    .${CSS_PREFIX}-rule-action-block {
+      background: var(--destructive);
+      color: var(--destructive-foreground);
+    }
+
+    .${CSS_PREFIX}-rule-action-warn {
+      background: oklch(0.77 0.16 70.08);
+      color: oklch(0.28 0.07 46);
+    }
+
+    .${CSS_PREFIX}-flagged-block,
+    .${CSS_PREFIX}-flagged-warn {
+      border-radius: 3px;
+      padding: 0 1px;
+      color: inherit;
+    }
+
+    .${CSS_PREFIX}-flagged-block {
+      background: color-mix(in oklch, var(--destructive) 28%, transparent);
+    }
+
+    .${CSS_PREFIX}-flagged-warn {
+      background: color-mix(in oklch, oklch(0.77 0.16 70.08) 35%, transparent);
+    }
+
     .${CSS_PREFIX}-modal-actions {
       display: flex;
       gap: 12px;
@@ -0,0 +1,284 @@
+import type { BaseSiteHandler } from "./sites";
+import { CSS_PREFIX } from "../shared/constants";
+import { devLog } from "../shared/utils";
+
+const REHYDRATED_CLASS = `${CSS_PREFIX}-rehydrated`;
+const STYLE_ID = `${CSS_PREFIX}-rehydrate-styles`;
+
+// Elements whose text must never be rewritten
+const SKIP_SELECTOR = [
+  `.${REHYDRATED_CLASS}`,
+  `.${REHYDRATED_CLASS}-text`,
+  `#${CSS_PREFIX}-overlay-root`,
+  '[contenteditable="true"]',
+  "textarea",
+  "input",
+  "script",
+  "style",
+  "noscript",
+].join(", ");
+
+/**
+ * Displays the original values in place of masked tokens that the LLM
+ * echoes back in its responses (e.g. `[EMAIL]_1` -> `alice@corp.com`).
+ *
+ * Purely visual: only the rendered response DOM is touched, the prompt
+ * input and anything sent to the site are left as-is.
+ *
+ * The page's text nodes belong to its framework, which keeps updating them
+ * while a response streams in. They are never replaced: a text node with
+ * tokens is emptied and our copy of its text is inserted right after it.
+ * When the framework writes to the node again (or removes it), our copy is
+ * dropped and the new text rehydrated.
+ */
+export class ResponseRehydrator {
+  private readonly handler: BaseSiteHandler;
+  private tokenToOriginal = new Map<string, string>();
+  private tokenRegex: RegExp | null = null;
+  private enabled = true;
+  private observer: MutationObserver | null = null;
+  private root: HTMLElement | null = null;
+  private rootCheck: ReturnType<typeof setInterval> | undefined;
+  private scanTimeout: ReturnType<typeof setTimeout> | undefined;
+  // Emptied text nodes of the page -> their text and the nodes shown instead
+  private rehydrated = new Map<Text, { text: string; nodes: Node[] }>();
+
+  constructor(handler: BaseSiteHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * Start watching the conversation for masked tokens
+   */
+  start(): void {
+    if (this.observer) return;
+    injectStyles();
+
+    this.observer = new MutationObserver(() => this.scheduleScan());
+    this.observeRoot();
+    // The response root can be replaced on in-app navigation
+    this.rootCheck = setInterval(() => this.observeRoot(), 1000);
+  }
+
+  /**
+   * Stop watching and restore all tokens
+   */
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.root = null;
+    clearInterval(this.rootCheck);
+    clearTimeout(this.scanTimeout);
+    this.restoreAll();
+  }
+
+  /**
+   * Replace the known token -> original mappings
+   */
+  setOriginals(originals: Record<string, string>): void {
+    this.tokenToOriginal = new Map(Object.entries(originals));
+
+    // Longest tokens first so `[EMAIL]_10` wins over `[EMAIL]_1`
+    const tokens = [...this.tokenToOriginal.keys()]
+      .filter((token) => token.length > 0)
+      .sort((a, b) => b.length - a.length);
+
+    this.tokenRegex =
+      tokens.length > 0
+        ? new RegExp(`(?:${tokens.map(escapeRegExp).join("|")})(?!\\d)`, "g")
+        : null;
+
+    // Values of tokens shown before may have changed
+    this.restoreAll();
+    this.scheduleScan();
+  }
+
+  /**
+   * Toggle between showing original values and masked tokens
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (enabled) {
+      this.scheduleScan();
+    } else {
+      this.restoreAll();
+    }
+  }
+
+  /**
+   * Watch the current response root, if it changed
+   */
+  private observeRoot(): void {
+    const root = this.handler.getResponseRoot();
+    if (!this.observer || root === this.root) return;
+
+    this.observer.disconnect();
+    this.root = root;
+    if (!root) return;
+
+    this.observer.observe(root, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+    this.scheduleScan();
+  }
+
+  private scheduleScan(): void {
+    if (!this.enabled || !this.observer) return;
+    // Debounce generously: responses stream in and are re-rendered often
+    clearTimeout(this.scanTimeout);
+    this.scanTimeout = setTimeout(() => this.scan(), 600);
+  }
+
+  private scan(): void {
+    this.dropOutdated();
+
+    const root = this.root;
+    if (!root || !this.tokenRegex) return;
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) => {
+        const parent = node.parentElement;
+        if (!parent || parent.closest(SKIP_SELECTOR)) {
+          return NodeFilter.FILTER_REJECT;
+        }
+        return NodeFilter.FILTER_ACCEPT;
+      },
+    });
+
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text);
+    }
+
+    let replaced = 0;
+    for (const node of textNodes) {
+      replaced += this.rehydrateNode(node);
+    }
+
+    // Our own changes don't need another scan
+    this.observer?.takeRecords();
+
+    if (replaced > 0) {
+      devLog(`Maskeraid: Rehydrated ${replaced} token(s) in responses`);
+    }
+  }
+
+  /**
+   * Show a text node's text with every known token rehydrated after the
+   * (emptied) node, returns the number replaced
+   */
+  private rehydrateNode(node: Text): number {
+    if (this.rehydrated.has(node)) return 0;
+
+    const text = node.data;
+    const regex = this.tokenRegex!;
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    let lastIndex = 0;
+    let count = 0;
+    const nodes: Node[] = [];
+
+    while ((match = regex.exec(text)) !== null) {
+      const token = match[0];
+      const original = this.tokenToOriginal.get(token);
+      if (original === undefined) continue;
+
+      if (match.index > lastIndex) {
+        nodes.push(createTextCopy(text.slice(lastIndex, match.index)));
+      }
+      nodes.push(createRehydratedSpan(token, original));
+      lastIndex = match.index + token.length;
+      count++;
+    }
+
+    if (count === 0) return 0;
+
+    if (lastIndex < text.length) {
+      nodes.push(createTextCopy(text.slice(lastIndex)));
+    }
+    node.after(...nodes);
+    node.data = "";
+    this.rehydrated.set(node, { text, nodes });
+    return count;
+  }
+
+  /**
+   * Drop our copies of text nodes the page has since rewritten or removed
+   */
+  private dropOutdated(): void {
+    for (const [node, { nodes }] of this.rehydrated) {
+      if (node.isConnected && node.data === "") continue;
+      nodes.forEach((n) => n.parentNode?.removeChild(n));
+      this.rehydrated.delete(node);
+    }
+  }
+
+  private restoreAll(): void {
+    for (const [node, { text, nodes }] of this.rehydrated) {
+      nodes.forEach((n) => n.parentNode?.removeChild(n));
+      if (node.data === "") node.data = text;
+    }
+    this.rehydrated.clear();
+    this.observer?.takeRecords();
+  }
+}
+
+// Text around tokens, shown in place of the emptied text node
+function createTextCopy(text: string): HTMLElement {
+  const span = document.createElement("span");
+  span.className = `${REHYDRATED_CLASS}-text`;
+  span.textContent = text;
+  return span;
+}
+
+function createRehydratedSpan(token: string, original: string): HTMLElement {
+  const span = document.createElement("span");
+  span.className = REHYDRATED_CLASS;
+  span.dataset.token = token;
+  span.dataset.original = original;
+  span.textContent = original;
+  span.title = `Masked as ${token} (click to toggle)`;
+
+  // Per-token toggle between original value and masked token
+  span.addEventListener("click", (e) => {
+    e.stopPropagation();
+    const showingOriginal = span.textContent === original;
+    span.textContent = showingOriginal ? token : original;
+    span.classList.toggle(`${REHYDRATED_CLASS}-masked`, showingOriginal);
+  });
+
+  return span;
+}
+
+function injectStyles(): void {
+  if (document.getElementById(STYLE_ID)) return;
+
+  const style = document.createElement("style");
+  style.id = STYLE_ID;
+  style.textContent = `
+    .${REHYDRATED_CLASS} {
+      background: rgba(34, 139, 84, 0.14);
+      border-bottom: 1px dashed rgba(34, 139, 84, 0.7);
+      border-radius: 3px;
+      padding: 0 2px;
+      cursor: pointer;
+    }
+
+    .${REHYDRATED_CLASS}-masked {
+      background: rgba(120, 120, 120, 0.14);
+      border-bottom-color: rgba(120, 120, 120, 0.7);
+      font-family: 'SF Mono', Monaco, monospace;
+    }
+  `;
+  document.head.appendChild(style);
+}
+
+/**
+ * Escape special regex characters in a string
+ */
+function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,353 @@
+import { sanitize, testRule } from "../shared/sanitizer";
+import { IncrementalDetector } from "../shared/incremental";
+import { computeSpanRisk } from "../shared/risk";
+import { devLog } from "../shared/utils";
+import { RULE_TIME_BUDGET_MS } from "../shared/constants";
+import type {
+  AllowlistEntry,
+  RiskScore,
+  SanitizationResult,
+  SanitizationRule,
+  SanitizeOptions,
+} from "../shared/types";
+
+/**
+ * Work the runner can do off the main thread
+ * - sanitize: a full sanitize() run
+ * - count: matches per rule, each rule tested on its own
+ * - detect: risk of the matches sanitize() would mask, found incrementally
+ */
+export type RuleRequest =
+  | {
+      kind: "sanitize";
+      text: string;
+      rules: SanitizationRule[];
+      options: Omit<SanitizeOptions, "onRuleStart">;
+    }
+  | {
+      kind: "count";
+      text: string;
+      rules: SanitizationRule[];
+      allowlist: AllowlistEntry[];
+    }
+  | {
+      kind: "detect";
+      text: string;
+      rules: SanitizationRule[];
+      allowlist: AllowlistEntry[];
+    };
+
+/**
+ * Result of a request, by kind
+ */
+export type RuleResult = SanitizationResult | MatchCounts | RiskScore;
+
+/**
+ * Messages the worker posts back for a request
+ * A "rule" message is sent before each rule is evaluated, so the runner
+ * knows which rule to blame when the budget runs out.
+ */
+export type RuleWorkerMessage =
+  | { id: number; type: "rule"; ruleId: string }
+  | { id: number; type: "done"; result: RuleResult }
+  | { id: number; type: "error"; message: string };
+
+/**
+ * Matches per rule ID
+ */
+export type MatchCounts = Record<string, number>;
+
+// Source of the worker (src/content/sanitize.worker.ts), inlined by
+// build-content.js since content scripts can only start blob workers
+declare const __SANITIZE_WORKER_SOURCE__: string | undefined;
+
+// Spans of the last detected text (one per worker, or for the page when
+// rules run inline)
+const detector = new IncrementalDetector();
+
+// Terms of dictionary rules by rule ID, as last received. Term lists can run
+// into tens of thousands, so the runner sends them only when they changed
+// (see RuleRunner.omitSentTerms).
+const receivedTerms = new Map<string, { updatedAt: number; terms: string[] }>();
+
+/**
+ * Evaluate a request, calling onRuleStart before each rule
+ * Shared by the worker and the main-thread fallback.
+ */
+export function runRuleRequest(
+  received: RuleRequest,
+  onRuleStart: (rule: SanitizationRule) => void
+): RuleResult {
+  const request = { ...received, rules: restoreTerms(received.rules) };
+
+  if (request.kind === "sanitize") {
+    return sanitize(request.text, request.rules, {
+      ...request.options,
+      onRuleStart,
+    });
+  }
+
+  if (request.kind === "detect") {
+    return computeSpanRisk(
+      detector.detect(
+        request.text,
+        request.rules,
+        request.allowlist,
+        onRuleStart
+      )
+    );
+  }
+
+  const counts: MatchCounts = {};
+  for (const rule of request.rules) {
+    onRuleStart(rule);
+    counts[rule.id] = testRule(request.text, rule, request.allowlist).count;
+  }
+  return counts;
+}
+
+/**
+ * Fill in the terms of dictionary rules sent without them, remembering
+ * the terms of those sent with them
+ */
+function restoreTerms(rules: SanitizationRule[]): SanitizationRule[] {
+  return rules.map((rule) => {
+    if (rule.type !== "dictionary") return rule;
+    if (rule.terms) {
+      receivedTerms.set(rule.id, {
+        updatedAt: rule.updatedAt,
+        terms: rule.terms,
+      });
+      return rule;
+    }
+    const received = receivedTerms.get(rule.id);
+    return received?.updatedAt === rule.updatedAt
+      ? { ...rule, terms: received.terms }
+      : rule;
+  });
+}
+
+class RuleTimeoutError extends Error {
+  readonly rule: SanitizationRule;
+
+  constructor(rule: SanitizationRule) {
+    super(`Rule "${rule.name}" exceeded ${RULE_TIME_BUDGET_MS}ms`);
+    this.name = "RuleTimeoutError";
+    this.rule = rule;
+  }
+}
+
+/**
+ * Runs rules in a worker so a slow (e.g. catastrophically backtracking)
+ * regex can't freeze the page.
+ *
+ * A rule that runs past the time budget gets the worker terminated; the
+ * rule is reported through onTimeout and the request is retried without it.
+ * Pages whose CSP doesn't allow blob workers fall back to the main thread,
+ * where slow rules can't be interrupted but are still reported afterwards.
+ */
+export class RuleRunner {
+  private readonly onTimeout: (rule: SanitizationRule) => void;
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private workerUnavailable = typeof __SANITIZE_WORKER_SOURCE__ !== "string";
+  private nextId = 0;
+  // Requests run one at a time, so a timeout is blamed on the right request
+  private queue: Promise<unknown> = Promise.resolve();
+  // updatedAt of the dictionary terms the current worker has, by rule ID
+  private sentTerms = new Map<string, number>();
+
+  constructor(onTimeout: (rule: SanitizationRule) => void) {
+    this.onTimeout = onTimeout;
+  }
+
+  /**
+   * sanitize() off the main thread
+   */
+  sanitize(
+    text: string,
+    rules: SanitizationRule[],
+    options: Omit<SanitizeOptions, "onRuleStart"> = {}
+  ): Promise<SanitizationResult> {
+    return this.enqueue({
+      kind: "sanitize",
+      text,
+      rules,
+      options,
+    }) as Promise<SanitizationResult>;
+  }
+
+  /**
+   * Count the matches of each rule on its own (rules that timed out count 0)
+   */
+  countMatches(
+    text: string,
+    rules: SanitizationRule[],
+    allowlist: AllowlistEntry[]
+  ): Promise<MatchCounts> {
+    return this.enqueue({
+      kind: "count",
+      text,
+      rules,
+      allowlist,
+    }) as Promise<MatchCounts>;
+  }
+
+  /**
+   * Risk of the matches sanitize() would mask (with their count),
+   * re-scanning only what changed since the previous call (for live
+   * feedback on long prompts)
+   */
+  detect(
+    text: string,
+    rules: SanitizationRule[],
+    allowlist: AllowlistEntry[]
+  ): Promise<RiskScore> {
+    return this.enqueue({
+      kind: "detect",
+      text,
+      rules,
+      allowlist,
+    }) as Promise<RiskScore>;
+  }
+
+  /**
+   * Stop the worker (a new one is started for the next request)
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.sentTerms.clear();
+  }
+
+  private enqueue(request: RuleRequest): Promise<RuleResult> {
+    const result = this.queue.then(() => this.execute(request));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async execute(request: RuleRequest): Promise<RuleResult> {
+    let current = request;
+    for (;;) {
+      try {
+        return await this.runInWorker(current);
+      } catch (e) {
+        if (!(e instanceof RuleTimeoutError)) throw e;
+        this.onTimeout(e.rule);
+        current = {
+          ...current,
+          rules: current.rules.filter((rule) => rule.id !== e.rule.id),
+        };
+      }
+    }
+  }
+
+  private runInWorker(request: RuleRequest): Promise<RuleResult> {
+    const worker = this.getWorker();
+    if (!worker) return Promise.resolve(this.runOnMainThread(request));
+
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        clearTimeout(timer);
+        worker.removeEventListener("message", handleMessage);
+        worker.removeEventListener("error", handleError);
+      };
+
+      const handleMessage = (event: MessageEvent<RuleWorkerMessage>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        if (message.type === "rule") {
+          const rule = request.rules.find((r) => r.id === message.ruleId);
+          clearTimeout(timer);
+          timer = setTimeout(() => {
+            finish();
+            this.dispose();
+            reject(
+              rule
+                ? new RuleTimeoutError(rule)
+                : new Error(`Unknown rule ${message.ruleId}`)
+            );
+          }, RULE_TIME_BUDGET_MS);
+          return;
+        }
+
+        finish();
+        if (message.type === "done") resolve(message.result);
+        else reject(new Error(message.message));
+      };
+
+      // The page's CSP blocked the worker: run this and later requests inline
+      const handleError = () => {
+        finish();
+        devLog("Maskeraid: Rule worker unavailable, running rules inline");
+        this.dispose();
+        this.workerUnavailable = true;
+        resolve(this.runOnMainThread(request));
+      };
+
+      worker.addEventListener("message", handleMessage);
+      worker.addEventListener("error", handleError);
+      worker.postMessage({ id, request: this.omitSentTerms(request) });
+    });
+  }
+
+  /**
+   * Leave out dictionary terms the worker already has (it restores them
+   * by rule ID and updatedAt)
+   */
+  private omitSentTerms(request: RuleRequest): RuleRequest {
+    const rules = request.rules.map((rule) => {
+      if (rule.type !== "dictionary" || !rule.terms) return rule;
+      if (this.sentTerms.get(rule.id) === rule.updatedAt) {
+        return { ...rule, terms: undefined };
+      }
+      this.sentTerms.set(rule.id, rule.updatedAt);
+      return rule;
+    });
+    return { ...request, rules };
+  }
+
+  private runOnMainThread(request: RuleRequest): RuleResult {
+    let current: { rule: SanitizationRule; startedAt: number } | null = null;
+    const slowRules: SanitizationRule[] = [];
+    const endCurrent = () => {
+      if (
+        current &&
+        performance.now() - current.startedAt > RULE_TIME_BUDGET_MS
+      ) {
+        slowRules.push(current.rule);
+      }
+    };
+
+    const result = runRuleRequest(request, (rule) => {
+      endCurrent();
+      current = { rule, startedAt: performance.now() };
+    });
+    endCurrent();
+
+    slowRules.forEach((rule) => this.onTimeout(rule));
+    return result;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) return this.worker;
+
+    try {
+      // Kept for restarting the worker after a timeout
+      this.workerUrl ??= URL.createObjectURL(
+        new Blob([__SANITIZE_WORKER_SOURCE__!], {
+          type: "application/javascript",
+        })
+      );
+      this.worker = new Worker(this.workerUrl);
+    } catch (e) {
+      devLog("Maskeraid: Rule worker unavailable, running rules inline", e);
+      this.workerUnavailable = true;
+    }
+    return this.worker;
+  }
+}
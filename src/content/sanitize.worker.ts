@@ -0,0 +1,24 @@
+/**
+ * Worker that evaluates rules off the page's main thread
+ * Bundled separately and inlined into the content script (see ruleRunner.ts)
+ */
+
+import { runRuleRequest } from "./ruleRunner";
+import type { RuleRequest, RuleWorkerMessage } from "./ruleRunner";
+
+const post = (message: RuleWorkerMessage) => self.postMessage(message);
+
+self.addEventListener(
+  "message",
+  (event: MessageEvent<{ id: number; request: RuleRequest }>) => {
+    const { id, request } = event.data;
+    try {
+      const result = runRuleRequest(request, (rule) =>
+        post({ id, type: "rule", ruleId: rule.id })
+      );
+      post({ id, type: "done", result });
+    } catch (e) {
+      post({ id, type: "error", message: (e as Error).message });
+    }
+  }
+);
@@ -38,6 +38,23 @@ export abstract class BaseSiteHandler {
    */
   abstract getSubmitButton(): HTMLElement | null;
 
+  /**
+   * Get the element that contains the rendered conversation (LLM responses)
+   */
+  getResponseRoot(): HTMLElement | null {
+    // Override in subclasses if the conversation lives outside <main>
+    return document.querySelector<HTMLElement>("main");
+  }
+
+  /**
+   * Get an identifier for the current conversation, derived from the URL.
+   * Returns null for a new conversation that has no URL of its own yet.
+   */
+  getConversationId(): string | null {
+    // Override in subclasses; without an ID every visit is a new conversation
+    return null;
+  }
+
   /**
    * Initialize the handler (set up observers, etc.)
    */
@@ -86,6 +103,18 @@ export abstract class BaseSiteHandler {
     });
   }
 
+  /**
+   * Extract the first capture group of a conversation URL pattern
+   */
+  protected matchConversationId(url: string, pattern: RegExp): string | null {
+    try {
+      const match = new URL(url).pathname.match(pattern);
+      return match?.[1] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Trigger an input event to ensure React/framework state updates
    */
@@ -23,6 +23,11 @@ export class ChatGPTHandler extends BaseSiteHandler {
     return /^https:\/\/(chat\.openai\.com|chatgpt\.com)/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /c/<id>, optionally under a custom GPT (/g/<gpt>/c/<id>)
+    return this.matchConversationId(url, /\/c\/([\w-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     return document.querySelector<HTMLElement>(this.selectors.textarea);
   }
@@ -24,6 +24,11 @@ export class ClaudeHandler extends BaseSiteHandler {
     return /^https:\/\/claude\.ai/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /chat/<uuid>
+    return this.matchConversationId(url, /^\/chat\/([\w-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     // Try contenteditable first
     let textarea = document.querySelector<HTMLElement>(this.selectors.textarea);
@@ -39,6 +39,11 @@ export class CopilotHandler extends BaseSiteHandler {
            m365Pattern.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /chats/<id>
+    return this.matchConversationId(url, /^\/chats\/([\w-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     console.log("[CopilotHandler] Searching for textarea...");
     
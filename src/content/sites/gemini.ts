@@ -25,6 +25,11 @@ export class GeminiHandler extends BaseSiteHandler {
     return /^https:\/\/gemini\.google\.com/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /app/<id>, or /gem/<gem>/<id> for Gems
+    return this.matchConversationId(url, /^\/(?:app|gem\/[\w-]+)\/([\w-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     let textarea = document.querySelector<HTMLElement>(this.selectors.textarea);
     if (!textarea) {
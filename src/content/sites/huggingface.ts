@@ -32,6 +32,11 @@ export class HuggingFaceHandler extends BaseSiteHandler {
     return /^https:\/\/(www\.)?huggingface\.co\/(spaces|chat)/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /chat/conversation/<id>
+    return this.matchConversationId(url, /^\/chat\/conversation\/([\w-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     // Try Gradio textbox first
     let textarea = document.querySelector<HTMLElement>(
@@ -29,6 +29,11 @@ export class NotionHandler extends BaseSiteHandler {
     return /^https:\/\/(www\.)?notion\.so/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // The 32-character page ID at the end of the path
+    return this.matchConversationId(url, /([0-9a-f]{32})(?:$|\/)/);
+  }
+
   getTextarea(): HTMLElement | null {
     // First try AI composer input
     let textarea = document.querySelector<HTMLElement>(this.selectors.aiInput);
@@ -25,6 +25,11 @@ export class PerplexityHandler extends BaseSiteHandler {
     return /^https:\/\/(www\.)?perplexity\.ai/.test(url);
   }
 
+  getConversationId(url: string = window.location.href): string | null {
+    // /search/<slug>
+    return this.matchConversationId(url, /^\/search\/([\w.-]+)/);
+  }
+
   getTextarea(): HTMLElement | null {
     let textarea = document.querySelector<HTMLElement>(this.selectors.textbox);
     if (!textarea) {
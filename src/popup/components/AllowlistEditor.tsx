@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { AllowlistEntry } from "@/shared/types";
+import { createAllowlistEntry } from "@/shared/allowlist";
+import { validatePattern } from "@/shared/sanitizer";
+import { AlertCircle, Code, Plus, Trash2, Type } from "lucide-react";
+
+interface AllowlistEditorProps {
+  entries: AllowlistEntry[];
+  onChange: (entries: AllowlistEntry[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Edit a list of values that must never be masked
+ */
+export function AllowlistEditor({
+  entries,
+  onChange,
+  placeholder = "support@example.com",
+}: AllowlistEditorProps) {
+  const [pattern, setPattern] = useState("");
+  const [isRegex, setIsRegex] = useState(false);
+
+  const trimmed = pattern.trim();
+  const validation = validatePattern(trimmed, isRegex);
+  const error = trimmed && !validation.valid ? validation.error : null;
+  const isDuplicate = entries.some(
+    (entry) => entry.isRegex === isRegex && entry.pattern === trimmed
+  );
+
+  const handleAdd = () => {
+    if (!trimmed || error || isDuplicate) return;
+    onChange([...entries, createAllowlistEntry(trimmed, isRegex)]);
+    setPattern("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              // Don't submit a surrounding form
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={isRegex ? "127\\.0\\.0\\.\\d+" : placeholder}
+          className={`h-8 font-mono text-sm ${error ? "border-destructive" : ""}`}
+        />
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-xs text-muted-foreground">Regex</span>
+          <Switch checked={isRegex} onCheckedChange={setIsRegex} />
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          className="h-8 shrink-0"
+          disabled={!trimmed || !!error || isDuplicate}
+          onClick={handleAdd}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <div className="rounded-md border divide-y">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-2 px-2 py-1.5 text-sm"
+            >
+              {entry.isRegex ? (
+                <Code className="w-3 h-3 shrink-0 text-muted-foreground" />
+              ) : (
+                <Type className="w-3 h-3 shrink-0 text-muted-foreground" />
+              )}
+              <span className="flex-1 font-mono truncate">{entry.pattern}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-destructive hover:text-destructive"
+                onClick={() =>
+                  onChange(entries.filter((e) => e.id !== entry.id))
+                }
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
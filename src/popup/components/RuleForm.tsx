@@ -12,13 +12,40 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { SanitizationRule } from "@/shared/types";
+import type {
+  AllowlistEntry,
+  MaskingStrategy,
+  RuleAction,
+  RuleScope,
+  RuleSeverity,
+  RuleType,
+  SanitizationRule,
+  ValidatorId,
+} from "@/shared/types";
+import { validatePattern, testRule, COMMON_PATTERNS } from "@/shared/sanitizer";
+import { parseTerms } from "@/shared/dictionary";
+import { DEFAULT_MIN_ENTROPY, DEFAULT_MIN_LENGTH } from "@/shared/entropy";
 import {
-  validatePattern,
-  testPattern,
-  COMMON_PATTERNS,
-} from "@/shared/sanitizer";
-import { ArrowLeft, AlertCircle, CheckCircle, Wand2 } from "lucide-react";
+  DEFAULT_SENSITIVE_KEYS,
+  DEFAULT_SENSITIVE_QUERY_PARAMS,
+  RULE_TIME_BUDGET_MS,
+} from "@/shared/constants";
+import { DEFAULT_CONTEXT_WINDOW, parseContextWords } from "@/shared/context";
+import { DEFAULT_SEVERITY } from "@/shared/risk";
+import { AllowlistEditor } from "@/popup/components/AllowlistEditor";
+import { VALIDATORS } from "@/shared/validators";
+import {
+  DEFAULT_KEEP_LAST,
+  MASKING_STRATEGIES,
+  previewStrategies,
+} from "@/shared/strategies";
+import {
+  ArrowLeft,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Wand2,
+} from "lucide-react";
 
 interface RuleFormProps {
   rule: SanitizationRule | null;
@@ -26,61 +53,331 @@ interface RuleFormProps {
     data: Omit<SanitizationRule, "id" | "createdAt" | "updatedAt">
   ) => void;
   onCancel: () => void;
+  /** Global allowlist, left out of test matches like when sanitizing */
+  allowlist: AllowlistEntry[];
 }
 
-const CATEGORIES = ["PII", "Financial", "Technical", "Custom"];
+const CATEGORIES = [
+  "PII",
+  "Financial",
+  "Health",
+  "Technical",
+  "Cloud",
+  "Source Control",
+  "Messaging",
+  "Payments",
+  "Authentication",
+  "Database",
+  "Custom",
+];
+
+const RULE_TYPES: Record<RuleType, { name: string; description: string }> = {
+  pattern: {
+    name: "Pattern",
+    description: "A single literal text or regular expression",
+  },
+  dictionary: {
+    name: "Dictionary",
+    description:
+      "List of terms (e.g. client names, codenames, hostnames) matched in one pass",
+  },
+  entropy: {
+    name: "Entropy detector",
+    description:
+      "Random-looking tokens such as generated passwords, session tokens and API secrets",
+  },
+  structured: {
+    name: "Structured data",
+    description:
+      "Values of sensitive keys/columns in pasted JSON, YAML, .env, SQL and CSV",
+  },
+  url: {
+    name: "URL",
+    description:
+      "Credentials, token parameters and internal hosts in URLs, keeping the rest of the URL",
+  },
+  address: {
+    name: "Address",
+    description:
+      "Street addresses (including multi-line blocks) and US, UK, Canadian, Indian and European postal codes",
+  },
+  date: {
+    name: "Date",
+    description:
+      "Calendar dates such as 1990-03-14, 14/03/1990 or March 14, 1990 (pair with the date shift strategy)",
+  },
+};
+
+const RULE_SCOPES: Record<RuleScope, { name: string; description: string }> = {
+  all: {
+    name: "Everywhere",
+    description: "Matches are masked in prose and code alike",
+  },
+  prose: {
+    name: "Prose only",
+    description:
+      "Code blocks and inline code are left alone, so masking can't break them",
+  },
+  code: {
+    name: "Code only",
+    description: "Only matches inside code blocks and inline code are masked",
+  },
+};
+
+const RULE_ACTIONS: Record<RuleAction, { name: string; description: string }> =
+  {
+    mask: {
+      name: "Mask",
+      description: "Matches are masked before the prompt is sent",
+    },
+    warn: {
+      name: "Warn",
+      description:
+        "Matches are left as-is and highlighted, sending needs a confirmation",
+    },
+    block: {
+      name: "Block",
+      description:
+        "Prompts with matches can't be sent, not even masked, until the matches are removed",
+    },
+  };
+
+const RULE_SEVERITIES: Record<
+  RuleSeverity,
+  { name: string; description: string }
+> = {
+  low: {
+    name: "Low",
+    description: "Rarely identifies anyone on its own (IP addresses, dates)",
+  },
+  medium: {
+    name: "Medium",
+    description: "Personal contact details (emails, phone numbers)",
+  },
+  high: {
+    name: "High",
+    description: "Government, financial and health identifiers",
+  },
+  critical: {
+    name: "Critical",
+    description: "Credentials that grant access (API keys, private keys)",
+  },
+};
 
-export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
+export function RuleForm({ rule, onSave, onCancel, allowlist }: RuleFormProps) {
   const [name, setName] = useState(rule?.name || "");
+  const [type, setType] = useState<RuleType>(rule?.type || "pattern");
   const [pattern, setPattern] = useState(rule?.pattern || "");
   const [replacement, setReplacement] = useState(rule?.replacement || "");
   const [isRegex, setIsRegex] = useState(rule?.isRegex || false);
   const [flags, setFlags] = useState(rule?.flags || "g");
+  const [maskGroup, setMaskGroup] = useState(rule?.maskGroup || "");
+  const [termsText, setTermsText] = useState((rule?.terms || []).join("\n"));
+  // Tells the cached dictionary matcher of the tested draft apart
+  const [termsUpdatedAt, setTermsUpdatedAt] = useState(rule?.updatedAt ?? 0);
+  const [keysText, setKeysText] = useState(
+    (rule?.keys || DEFAULT_SENSITIVE_KEYS).join("\n")
+  );
+  const [queryParamsText, setQueryParamsText] = useState(
+    (rule?.queryParams || DEFAULT_SENSITIVE_QUERY_PARAMS).join("\n")
+  );
+  const [internalDomainsText, setInternalDomainsText] = useState(
+    (rule?.internalDomains || []).join("\n")
+  );
+  const [caseSensitive, setCaseSensitive] = useState(
+    rule?.caseSensitive || false
+  );
+  const [wholeWord, setWholeWord] = useState(rule?.wholeWord || false);
+  const [minEntropy, setMinEntropy] = useState(
+    String(rule?.minEntropy ?? DEFAULT_MIN_ENTROPY)
+  );
+  const [minLength, setMinLength] = useState(
+    String(rule?.minLength ?? DEFAULT_MIN_LENGTH)
+  );
+  const [scope, setScope] = useState<RuleScope>(rule?.scope || "all");
   const [enabled, setEnabled] = useState(rule?.enabled ?? true);
   const [category, setCategory] = useState(rule?.category || "");
+  const [priority, setPriority] = useState(String(rule?.priority ?? 0));
+  const [action, setAction] = useState<RuleAction>(rule?.action || "mask");
+  const [severity, setSeverity] = useState<RuleSeverity>(
+    rule?.severity || DEFAULT_SEVERITY
+  );
+  const [validator, setValidator] = useState<ValidatorId | "">(
+    rule?.validator || ""
+  );
+  const [strategy, setStrategy] = useState<MaskingStrategy>(
+    rule?.strategy || "indexed"
+  );
+  const [keepLast, setKeepLast] = useState(
+    String(rule?.keepLast ?? DEFAULT_KEEP_LAST)
+  );
+  const [contextWords, setContextWords] = useState(
+    (rule?.contextWords || []).join(", ")
+  );
+  const [negativeContextWords, setNegativeContextWords] = useState(
+    (rule?.negativeContextWords || []).join(", ")
+  );
+  const [contextWindow, setContextWindow] = useState(
+    String(rule?.contextWindow ?? DEFAULT_CONTEXT_WINDOW)
+  );
+  const [exceptions, setExceptions] = useState<AllowlistEntry[]>(
+    rule?.exceptions || []
+  );
   const [testText, setTestText] = useState("");
-  const error = useMemo(() => {
-    const result = validatePattern(pattern, isRegex);
-    return result.valid ? null : result.error || null;
-  }, [pattern, isRegex]);
+  const isPattern = type === "pattern";
+  const isDictionary = type === "dictionary";
+  const isEntropy = type === "entropy";
+  const isStructured = type === "structured";
+  const isUrl = type === "url";
+  const terms = useMemo(() => parseTerms(termsText), [termsText]);
+  const keys = useMemo(() => parseTerms(keysText), [keysText]);
+  const queryParams = useMemo(
+    () => parseTerms(queryParamsText),
+    [queryParamsText]
+  );
+  const internalDomains = useMemo(
+    () => parseTerms(internalDomainsText),
+    [internalDomainsText]
+  );
+  const validation = useMemo(
+    () =>
+      isPattern ? validatePattern(pattern, isRegex, maskGroup.trim()) : null,
+    [isPattern, pattern, isRegex, maskGroup]
+  );
+  const error =
+    validation && !validation.valid ? validation.error || null : null;
+  const warning = validation?.warning ?? null;
+  const hasMatcher = isPattern
+    ? !!pattern.trim()
+    : isDictionary
+      ? terms.length > 0
+      : !isStructured || keys.length > 0;
+  const entropyOptions = {
+    minEntropy: minEntropy === "" ? undefined : Math.max(0, Number(minEntropy)),
+    minLength: minLength === "" ? undefined : Math.max(1, Number(minLength)),
+  };
+  const context = {
+    contextWords: parseContextWords(contextWords),
+    negativeContextWords: parseContextWords(negativeContextWords),
+    contextWindow:
+      contextWindow === "" ? undefined : Math.max(0, Number(contextWindow)),
+  };
+  const hasContext =
+    context.contextWords.length > 0 || context.negativeContextWords.length > 0;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!name.trim() || !pattern.trim()) {
-      return;
-    }
-
-    const validation = validatePattern(pattern, isRegex);
-    if (!validation.valid) {
+    if (!name.trim() || !hasMatcher || error) {
       return;
     }
 
     onSave({
       name: name.trim(),
-      pattern,
+      type: isPattern ? undefined : type,
+      pattern: isPattern ? pattern : "",
       replacement,
-      isRegex,
-      flags: isRegex ? flags : undefined,
+      isRegex: isPattern && isRegex,
+      flags: isPattern && isRegex ? flags : undefined,
+      maskGroup:
+        isPattern && isRegex && maskGroup.trim() ? maskGroup.trim() : undefined,
+      terms: isDictionary ? terms : undefined,
+      keys: isStructured ? keys : undefined,
+      queryParams: isUrl ? queryParams : undefined,
+      internalDomains: isUrl ? internalDomains : undefined,
+      caseSensitive: isDictionary && caseSensitive ? true : undefined,
+      wholeWord: isDictionary && wholeWord ? true : undefined,
+      minEntropy:
+        isEntropy && entropyOptions.minEntropy !== DEFAULT_MIN_ENTROPY
+          ? entropyOptions.minEntropy
+          : undefined,
+      minLength:
+        isEntropy && entropyOptions.minLength !== DEFAULT_MIN_LENGTH
+          ? entropyOptions.minLength
+          : undefined,
       enabled,
+      priority: Number(priority) || undefined,
+      severity: severity === DEFAULT_SEVERITY ? undefined : severity,
+      action: action === "mask" ? undefined : action,
+      validator: validator || undefined,
+      contextWords: context.contextWords.length
+        ? context.contextWords
+        : undefined,
+      negativeContextWords: context.negativeContextWords.length
+        ? context.negativeContextWords
+        : undefined,
+      contextWindow:
+        hasContext && context.contextWindow !== DEFAULT_CONTEXT_WINDOW
+          ? context.contextWindow
+          : undefined,
+      exceptions: exceptions.length ? exceptions : undefined,
+      scope: scope === "all" ? undefined : scope,
+      strategy: strategy === "indexed" ? undefined : strategy,
+      keepLast:
+        (strategy === "partial" || strategy === "preserve-format") &&
+        keepLast !== ""
+          ? Math.max(0, Number(keepLast))
+          : undefined,
       category: category || undefined,
+      // Saving (e.g. after fixing a slow pattern) clears the timeout flag
+      timedOutAt: undefined,
     });
   };
 
   const applyPreset = (presetKey: keyof typeof COMMON_PATTERNS) => {
     const preset = COMMON_PATTERNS[presetKey];
+    setType("type" in preset ? preset.type : "pattern");
     setName(preset.name);
     setPattern(preset.pattern);
     setReplacement(preset.replacement);
     setIsRegex(preset.isRegex);
     setFlags(preset.flags);
+    setMaskGroup("maskGroup" in preset ? preset.maskGroup : "");
     setCategory(preset.category || "");
+    setValidator("validator" in preset ? preset.validator : "");
   };
 
   const testResult = testText
-    ? testPattern(testText, pattern, isRegex, flags)
+    ? testRule(
+        testText,
+        {
+          id: rule?.id || "draft",
+          name,
+          type,
+          pattern,
+          replacement,
+          isRegex,
+          flags,
+          maskGroup: maskGroup.trim() || undefined,
+          terms,
+          keys,
+          queryParams,
+          internalDomains,
+          caseSensitive,
+          wholeWord,
+          ...entropyOptions,
+          validator: validator || undefined,
+          ...context,
+          exceptions,
+          scope,
+          enabled: true,
+          createdAt: 0,
+          updatedAt: termsUpdatedAt,
+        },
+        allowlist
+      )
     : null;
 
+  // Preview every strategy on the first test match (or a sample value)
+  const strategyPreviews = previewStrategies(
+    {
+      replacement,
+      keepLast: keepLast === "" ? undefined : Math.max(0, Number(keepLast)),
+      validator: validator || undefined,
+    },
+    testResult?.matches[0] || (type === "date" ? "1990-03-14" : "123-45-6789")
+  );
+
   return (
     <form onSubmit={handleSubmit} className="flex flex-col h-full">
       {/* Header */}
@@ -99,6 +396,17 @@ export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
 
       {/* Form Content */}
       <div className="flex-1 overflow-auto p-4 space-y-4">
+        {rule?.timedOutAt && (
+          <div className="flex gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>
+              This rule was disabled because it took longer than{" "}
+              {RULE_TIME_BUDGET_MS}ms on a page. Simplify the pattern before
+              enabling it again.
+            </span>
+          </div>
+        )}
+
         {/* Presets */}
         {!rule && (
           <div>
@@ -137,63 +445,260 @@ export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
           />
         </div>
 
-        {/* Pattern Type Toggle */}
-        <div className="flex items-center justify-between">
-          <div>
-            <Label>Pattern Type</Label>
-            <p className="text-xs text-muted-foreground">
-              {isRegex ? "Regular expression" : "Literal text match"}
-            </p>
-          </div>
-          <div className="flex items-center gap-2">
-            <span className="text-xs text-muted-foreground">Text</span>
-            <Switch checked={isRegex} onCheckedChange={setIsRegex} />
-            <span className="text-xs text-muted-foreground">Regex</span>
-          </div>
+        {/* Rule Type */}
+        <div className="space-y-1.5">
+          <Label>Rule Type</Label>
+          <Select
+            value={type}
+            onValueChange={(value) => setType(value as RuleType)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a rule type" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_TYPES) as RuleType[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {RULE_TYPES[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {RULE_TYPES[type].description}
+          </p>
         </div>
 
-        {/* Pattern */}
-        <div className="space-y-1.5">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="pattern">Pattern *</Label>
+        {isPattern && (
+          <>
+            {/* Pattern Type Toggle */}
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Pattern Type</Label>
+                <p className="text-xs text-muted-foreground">
+                  {isRegex ? "Regular expression" : "Literal text match"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">Text</span>
+                <Switch checked={isRegex} onCheckedChange={setIsRegex} />
+                <span className="text-xs text-muted-foreground">Regex</span>
+              </div>
+            </div>
+
+            {/* Pattern */}
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pattern">Pattern *</Label>
+                {isRegex && (
+                  <div className="flex gap-1">
+                    {["g", "i", "m"].map((f) => (
+                      <Badge
+                        key={f}
+                        variant={flags.includes(f) ? "default" : "outline"}
+                        className="cursor-pointer h-5 px-1.5 text-[10px]"
+                        onClick={() => {
+                          setFlags(
+                            flags.includes(f) ? flags.replace(f, "") : flags + f
+                          );
+                        }}
+                      >
+                        {f}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Input
+                id="pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={
+                  isRegex
+                    ? "[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}"
+                    : "my-secret-api-key"
+                }
+                className={`font-mono text-sm ${error ? "border-destructive" : ""}`}
+                required
+              />
+              {error && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3" />
+                  {error}
+                </p>
+              )}
+              {warning && (
+                <p className="text-xs text-amber-600 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {warning}
+                </p>
+              )}
+            </div>
+
+            {/* Mask Group */}
             {isRegex && (
-              <div className="flex gap-1">
-                {["g", "i", "m"].map((f) => (
-                  <Badge
-                    key={f}
-                    variant={flags.includes(f) ? "default" : "outline"}
-                    className="cursor-pointer h-5 px-1.5 text-[10px]"
-                    onClick={() => {
-                      setFlags(
-                        flags.includes(f) ? flags.replace(f, "") : flags + f
-                      );
-                    }}
-                  >
-                    {f}
-                  </Badge>
-                ))}
+              <div className="space-y-1.5">
+                <Label htmlFor="maskGroup">Mask Only Group (Optional)</Label>
+                <Input
+                  id="maskGroup"
+                  value={maskGroup}
+                  onChange={(e) => setMaskGroup(e.target.value)}
+                  placeholder="e.g., 1 or key"
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {maskGroup.trim()
+                    ? "Only this capture group is masked, the rest of the match is kept"
+                    : "The whole match is masked"}
+                </p>
               </div>
             )}
+          </>
+        )}
+
+        {/* Entropy Thresholds */}
+        {isEntropy && (
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="minEntropy" className="text-xs font-normal">
+                Min entropy
+              </Label>
+              <Input
+                id="minEntropy"
+                type="number"
+                min={0}
+                max={6}
+                step={0.1}
+                value={minEntropy}
+                onChange={(e) => setMinEntropy(e.target.value)}
+                className="h-7 w-16 font-mono text-sm"
+              />
+              <span className="text-xs text-muted-foreground">bits/char</span>
+              <Label htmlFor="minLength" className="ml-2 text-xs font-normal">
+                Min length
+              </Label>
+              <Input
+                id="minLength"
+                type="number"
+                min={1}
+                value={minLength}
+                onChange={(e) => setMinLength(e.target.value)}
+                className="h-7 w-16 font-mono text-sm"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Hex tokens need two thirds of the entropy, since they carry at
+              most 4 bits per character
+            </p>
           </div>
-          <Input
-            id="pattern"
-            value={pattern}
-            onChange={(e) => setPattern(e.target.value)}
-            placeholder={
-              isRegex
-                ? "[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\\.[a-zA-Z]{2,}"
-                : "my-secret-api-key"
-            }
-            className={`font-mono text-sm ${error ? "border-destructive" : ""}`}
-            required
-          />
-          {error && (
-            <p className="text-xs text-destructive flex items-center gap-1">
-              <AlertCircle className="w-3 h-3" />
-              {error}
+        )}
+
+        {/* Sensitive Keys */}
+        {isStructured && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="keys">Sensitive Keys *</Label>
+              <span className="text-xs text-muted-foreground">
+                {keys.length} key{keys.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            <Textarea
+              id="keys"
+              value={keysText}
+              onChange={(e) => setKeysText(e.target.value)}
+              placeholder={"password\ntoken\nemail"}
+              className="h-32 font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              One key or column name per line. Names of 5+ characters also match
+              keys containing them, e.g. password in db_password.
             </p>
-          )}
-        </div>
+          </div>
+        )}
+
+        {/* URL Parts */}
+        {isUrl && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="queryParams">Sensitive Parameters</Label>
+              <span className="text-xs text-muted-foreground">
+                {queryParams.length} parameter
+                {queryParams.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            <Textarea
+              id="queryParams"
+              value={queryParamsText}
+              onChange={(e) => setQueryParamsText(e.target.value)}
+              placeholder={"token\nsig\nkey"}
+              className="h-32 font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              One query or fragment parameter name per line, matched
+              case-insensitively
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="internalDomains">Internal Domains</Label>
+              <span className="text-xs text-muted-foreground">
+                {internalDomains.length} domain
+                {internalDomains.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            <Textarea
+              id="internalDomains"
+              value={internalDomainsText}
+              onChange={(e) => setInternalDomainsText(e.target.value)}
+              placeholder={"corp.example.com\ninternal"}
+              className="h-20 font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Hosts on these domains or their subdomains are masked. User
+              credentials (user:pass@) are always masked.
+            </p>
+          </div>
+        )}
+
+        {/* Terms */}
+        {isDictionary && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="terms">Terms *</Label>
+              <span className="text-xs text-muted-foreground">
+                {terms.length} term{terms.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            <Textarea
+              id="terms"
+              value={termsText}
+              onChange={(e) => {
+                setTermsText(e.target.value);
+                setTermsUpdatedAt(Date.now());
+              }}
+              placeholder={"Acme Corp\nProject Falcon\ndb01.internal.example"}
+              className="h-32 font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">One term per line</p>
+            <div className="flex items-center justify-between py-1">
+              <Label htmlFor="caseSensitive" className="font-normal">
+                Case sensitive
+              </Label>
+              <Switch
+                id="caseSensitive"
+                checked={caseSensitive}
+                onCheckedChange={setCaseSensitive}
+              />
+            </div>
+            <div className="flex items-center justify-between py-1">
+              <Label htmlFor="wholeWord" className="font-normal">
+                Whole words only
+              </Label>
+              <Switch
+                id="wholeWord"
+                checked={wholeWord}
+                onCheckedChange={setWholeWord}
+              />
+            </div>
+          </div>
+        )}
 
         {/* Replacement */}
         <div className="space-y-1.5">
@@ -206,10 +711,250 @@ export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
             className="font-mono text-sm"
           />
           <p className="text-xs text-muted-foreground">
-            Leave empty to remove matched text
+            Token used by the indexed and fixed strategies
+          </p>
+        </div>
+
+        {/* Validator */}
+        <div className="space-y-1.5">
+          <Label>Validator (Optional)</Label>
+          <Select
+            value={validator || "none"}
+            onValueChange={(value) =>
+              setValidator(value === "none" ? "" : (value as ValidatorId))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a validator" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {(Object.keys(VALIDATORS) as ValidatorId[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {VALIDATORS[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {validator
+              ? `Only masks ${VALIDATORS[validator].description.toLowerCase()}`
+              : "Matches are masked without further checks"}
+          </p>
+        </div>
+
+        {/* Context */}
+        <div className="space-y-1.5">
+          <Label htmlFor="contextWords">Context Words (Optional)</Label>
+          <Input
+            id="contextWords"
+            value={contextWords}
+            onChange={(e) => setContextWords(e.target.value)}
+            placeholder="e.g., SSN, social security"
+            className="text-sm"
+          />
+          <Label htmlFor="negativeContextWords" className="text-xs font-normal">
+            Not near
+          </Label>
+          <Input
+            id="negativeContextWords"
+            value={negativeContextWords}
+            onChange={(e) => setNegativeContextWords(e.target.value)}
+            placeholder="e.g., order, invoice"
+            className="text-sm"
+          />
+          {hasContext && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="contextWindow" className="text-xs font-normal">
+                Within
+              </Label>
+              <Input
+                id="contextWindow"
+                type="number"
+                min={0}
+                value={contextWindow}
+                onChange={(e) => setContextWindow(e.target.value)}
+                className="h-7 w-16 font-mono text-sm"
+              />
+              <span className="text-xs text-muted-foreground">
+                characters of the match
+              </span>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {hasContext
+              ? "Matches without this context are only offered as low confidence in the preview"
+              : "Comma separated. Leave empty to mask every match"}
+          </p>
+        </div>
+
+        {/* Scope */}
+        <div className="space-y-1.5">
+          <Label>Applies To</Label>
+          <Select
+            value={scope}
+            onValueChange={(value) => setScope(value as RuleScope)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a scope" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_SCOPES) as RuleScope[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {RULE_SCOPES[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {RULE_SCOPES[scope].description}
+          </p>
+        </div>
+
+        {/* Exceptions */}
+        <div className="space-y-1.5">
+          <Label>Exceptions (Optional)</Label>
+          <AllowlistEditor
+            entries={exceptions}
+            onChange={setExceptions}
+            placeholder="Value this rule never masks"
+          />
+          <p className="text-xs text-muted-foreground">
+            Matches equal to an exception are never masked by this rule. The
+            global allowlist applies to every rule.
+          </p>
+        </div>
+
+        {/* Priority */}
+        <div className="space-y-1.5">
+          <Label htmlFor="priority">Priority</Label>
+          <Input
+            id="priority"
+            type="number"
+            step={1}
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            When matches of different rules overlap, the higher priority wins,
+            then the longer match
           </p>
         </div>
 
+        {/* Severity */}
+        <div className="space-y-1.5">
+          <Label>Severity</Label>
+          <Select
+            value={severity}
+            onValueChange={(value) => setSeverity(value as RuleSeverity)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a severity" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_SEVERITIES) as RuleSeverity[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {RULE_SEVERITIES[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {RULE_SEVERITIES[severity].description}. Sets how much each match
+            adds to the risk score shown on the overlay badge.
+          </p>
+        </div>
+
+        {/* Action */}
+        <div className="space-y-1.5">
+          <Label>Action</Label>
+          <Select
+            value={action}
+            onValueChange={(value) => setAction(value as RuleAction)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select an action" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_ACTIONS) as RuleAction[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {RULE_ACTIONS[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {RULE_ACTIONS[action].description}
+          </p>
+        </div>
+
+        {/* Masking Strategy */}
+        <div className="space-y-1.5">
+          <Label>Masking Strategy</Label>
+          <Select
+            value={strategy}
+            onValueChange={(value) => setStrategy(value as MaskingStrategy)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a strategy" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MASKING_STRATEGIES) as MaskingStrategy[]).map(
+                (id) => (
+                  <SelectItem key={id} value={id}>
+                    {MASKING_STRATEGIES[id].name}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {MASKING_STRATEGIES[strategy].description}
+          </p>
+          {(strategy === "partial" || strategy === "preserve-format") && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="keepLast" className="text-xs font-normal">
+                Keep last
+              </Label>
+              <Input
+                id="keepLast"
+                type="number"
+                min={0}
+                value={keepLast}
+                onChange={(e) => setKeepLast(e.target.value)}
+                className="h-7 w-16 font-mono text-sm"
+              />
+              <span className="text-xs text-muted-foreground">characters</span>
+            </div>
+          )}
+          <div className="rounded-md border divide-y text-xs">
+            {(Object.keys(MASKING_STRATEGIES) as MaskingStrategy[]).map(
+              (id) => (
+                <button
+                  key={id}
+                  type="button"
+                  className={`flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-accent/50 ${
+                    id === strategy ? "bg-accent/40 font-medium" : ""
+                  }`}
+                  onClick={() => setStrategy(id)}
+                >
+                  <span className="text-muted-foreground">
+                    {MASKING_STRATEGIES[id].name}
+                  </span>
+                  <span className="font-mono truncate">
+                    {strategyPreviews[id] || (
+                      <span className="italic text-muted-foreground">
+                        (removed)
+                      </span>
+                    )}
+                  </span>
+                </button>
+              )
+            )}
+          </div>
+        </div>
+
         {/* Category */}
         <div className="space-y-1.5">
           <Label>Category (Optional)</Label>
@@ -265,6 +1010,11 @@ export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
                   <span className="text-amber-600">No matches</span>
                 </>
               )}
+              {testResult.lowConfidence.length > 0 && (
+                <span className="text-muted-foreground">
+                  ({testResult.lowConfidence.length} low confidence)
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -283,7 +1033,7 @@ export function RuleForm({ rule, onSave, onCancel }: RuleFormProps) {
         <Button
           type="submit"
           className="flex-1"
-          disabled={!name.trim() || !pattern.trim() || !!error}
+          disabled={!name.trim() || !hasMatcher || !!error}
         >
           {rule ? "Save Changes" : "Create Rule"}
         </Button>
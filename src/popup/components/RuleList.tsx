@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { createElement, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
@@ -18,9 +18,103 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { SanitizationRule } from '@/shared/types';
-import { Pencil, Trash2, Plus, Code, Type, Search, X, RefreshCw } from 'lucide-react';
+import type { RuleType, SanitizationRule } from '@/shared/types';
+import { Pencil, Trash2, Plus, Code, Type, Search, X, RefreshCw, BookText, Sigma, Braces, Link, MapPin, CalendarDays, AlertTriangle, type LucideIcon } from 'lucide-react';
 import { trimStringSafe } from '@/lib/formatUtils';
+import { MASKING_STRATEGIES } from '@/shared/strategies';
+import { DEFAULT_MIN_ENTROPY } from '@/shared/entropy';
+import { RULE_TIME_BUDGET_MS } from '@/shared/constants';
+
+/**
+ * Rules sharing a category, toggled together from the list header
+ */
+export interface CategoryGroup {
+  name: string;
+  enabled: number;
+  total: number;
+}
+
+/**
+ * How each rule type is shown in the list
+ */
+interface RuleTypeDisplay {
+  label: string;
+  icon: LucideIcon;
+  /** Color of the type badge */
+  className: string;
+  /** What the rule matches, in short (below the rule name) */
+  summary: (rule: SanitizationRule) => string;
+  /** What the rule matches, in the delete dialog */
+  detail: (rule: SanitizationRule) => string;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const RULE_TYPE_DISPLAY: Record<RuleType, RuleTypeDisplay> = {
+  pattern: {
+    label: 'Literal text',
+    icon: Type,
+    className: '',
+    summary: (rule) => trimStringSafe(rule.pattern, 20),
+    detail: (rule) => trimStringSafe(rule.pattern, 60),
+  },
+  dictionary: {
+    label: 'Dictionary',
+    icon: BookText,
+    className: 'text-sky-600',
+    summary: (rule) => plural(rule.terms?.length ?? 0, 'term'),
+    detail: (rule) => trimStringSafe((rule.terms || []).join(', '), 60),
+  },
+  entropy: {
+    label: 'Entropy detector',
+    icon: Sigma,
+    className: 'text-violet-600',
+    summary: (rule) => `entropy ≥ ${rule.minEntropy ?? DEFAULT_MIN_ENTROPY}`,
+    detail: () => 'Entropy detector',
+  },
+  structured: {
+    label: 'Structured data',
+    icon: Braces,
+    className: 'text-amber-600',
+    summary: (rule) => plural(rule.keys?.length ?? 0, 'key'),
+    detail: (rule) => trimStringSafe((rule.keys || []).join(', '), 60),
+  },
+  url: {
+    label: 'URL',
+    icon: Link,
+    className: 'text-blue-600',
+    summary: (rule) =>
+      `${plural(rule.queryParams?.length ?? 0, 'param')}, ${plural(rule.internalDomains?.length ?? 0, 'domain')}`,
+    detail: (rule) =>
+      trimStringSafe([...(rule.queryParams || []), ...(rule.internalDomains || [])].join(', '), 60),
+  },
+  address: {
+    label: 'Address',
+    icon: MapPin,
+    className: 'text-emerald-600',
+    summary: () => 'street addresses, postcodes',
+    detail: () => 'Address detector',
+  },
+  date: {
+    label: 'Date',
+    icon: CalendarDays,
+    className: 'text-rose-600',
+    summary: (rule) => (rule.contextWords?.length ? 'dates near context words' : 'all dates'),
+    detail: () => 'Date detector',
+  },
+};
+
+// Regex pattern rules are told apart from literal ones
+const REGEX_DISPLAY: RuleTypeDisplay = {
+  ...RULE_TYPE_DISPLAY.pattern,
+  label: 'Regex pattern',
+  icon: Code,
+};
+
+function getTypeDisplay(rule: SanitizationRule): RuleTypeDisplay {
+  const type = rule.type || 'pattern';
+  return type === 'pattern' && rule.isRegex ? REGEX_DISPLAY : RULE_TYPE_DISPLAY[type];
+}
 
 interface RuleListProps {
   rules: SanitizationRule[];
@@ -31,6 +125,8 @@ interface RuleListProps {
   onEdit: (rule: SanitizationRule) => void;
   onDelete: (id: string) => void;
   onToggle: (id: string) => void;
+  categoryGroups?: CategoryGroup[];
+  onToggleCategory?: (category: string, enabled: boolean) => void;
   onLoadDefaults?: () => void;
 }
 
@@ -43,6 +139,8 @@ export function RuleList({
   onEdit,
   onDelete,
   onToggle,
+  categoryGroups,
+  onToggleCategory,
   onLoadDefaults,
 }: RuleListProps) {
   const [ruleToDelete, setRuleToDelete] = useState<SanitizationRule | null>(null);
@@ -118,6 +216,37 @@ export function RuleList({
             Add
           </Button>
         </div>
+        {categoryGroups && onToggleCategory && categoryGroups.length > 1 && (
+          <TooltipProvider delayDuration={200}>
+            <div className="flex flex-wrap gap-1.5">
+              {categoryGroups.map((group) => {
+                const allEnabled = group.enabled === group.total;
+                return (
+                  <Tooltip key={group.name}>
+                    <TooltipTrigger asChild>
+                      <button
+                        type="button"
+                        onClick={() => onToggleCategory(group.name, !allEnabled)}
+                        className={`h-6 px-2 rounded-full border text-[11px] transition-colors ${
+                          allEnabled
+                            ? 'bg-secondary text-secondary-foreground'
+                            : group.enabled > 0
+                              ? 'text-foreground hover:bg-accent'
+                              : 'text-muted-foreground hover:bg-accent'
+                        }`}
+                      >
+                        {group.name} {group.enabled}/{group.total}
+                      </button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      {allEnabled ? 'Disable' : 'Enable'} all {group.name} rules
+                    </TooltipContent>
+                  </Tooltip>
+                );
+              })}
+            </div>
+          </TooltipProvider>
+        )}
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <span>
             Showing {rules.length} of {totalRuleCount}
@@ -171,16 +300,15 @@ export function RuleList({
                         </span>
                         <Tooltip>
                           <TooltipTrigger asChild>
-                            <Badge variant="outline" className="shrink-0 h-5 px-1.5">
-                              {rule.isRegex ? (
-                                <Code className="w-3 h-3" />
-                              ) : (
-                                <Type className="w-3 h-3" />
-                              )}
+                            <Badge
+                              variant="outline"
+                              className={`shrink-0 h-5 px-1.5 ${getTypeDisplay(rule).className}`}
+                            >
+                              {createElement(getTypeDisplay(rule).icon, { className: 'w-3 h-3' })}
                             </Badge>
                           </TooltipTrigger>
                           <TooltipContent side="top">
-                            {rule.isRegex ? 'Regex pattern' : 'Literal text'}
+                            {getTypeDisplay(rule).label}
                           </TooltipContent>
                         </Tooltip>
                         {rule.category && (
@@ -188,14 +316,57 @@ export function RuleList({
                             {rule.category}
                           </Badge>
                         )}
+                        {rule.country && (
+                          <Badge variant="outline" className="shrink-0 h-5 text-[10px]">
+                            {rule.country}
+                          </Badge>
+                        )}
+                        {(rule.severity === 'high' || rule.severity === 'critical') && (
+                          <Badge
+                            variant={rule.severity === 'critical' ? 'destructive' : 'outline'}
+                            className="shrink-0 h-5 text-[10px] capitalize"
+                          >
+                            {rule.severity}
+                          </Badge>
+                        )}
+                        {rule.action && rule.action !== 'mask' && (
+                          <Badge
+                            variant={rule.action === 'block' ? 'destructive' : 'outline'}
+                            className="shrink-0 h-5 text-[10px]"
+                          >
+                            {rule.action === 'block' ? 'Blocks' : 'Warns'}
+                          </Badge>
+                        )}
+                        {rule.scope && rule.scope !== 'all' && (
+                          <Badge variant="outline" className="shrink-0 h-5 text-[10px]">
+                            {rule.scope === 'code' ? 'Code only' : 'Prose only'}
+                          </Badge>
+                        )}
                         {rule.isSystem && (
                           <Badge variant="outline" className="shrink-0 h-5 text-[10px] text-muted-foreground">
                             System
                           </Badge>
                         )}
+                        {rule.timedOutAt && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="destructive" className="shrink-0 h-5 px-1.5 text-[10px]">
+                                <AlertTriangle className="w-3 h-3" />
+                                Too slow
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent side="top">
+                              Disabled automatically after taking over {RULE_TIME_BUDGET_MS}ms on a page
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
                       </div>
                       <div className="text-xs text-muted-foreground font-mono truncate">
-                        {trimStringSafe(rule.pattern, 20)} → {trimStringSafe(rule.replacement, 20)}
+                        {getTypeDisplay(rule).summary(rule)}{' '}
+                        →{' '}
+                        {rule.strategy && rule.strategy !== 'indexed' && rule.strategy !== 'fixed'
+                          ? MASKING_STRATEGIES[rule.strategy].name
+                          : trimStringSafe(rule.replacement, 20)}
                       </div>
                     </div>
 
@@ -255,7 +426,7 @@ export function RuleList({
             <div className="rounded-md border p-3">
               <div className="font-medium text-sm truncate">{ruleToDelete.name}</div>
               <div className="mt-1 text-xs text-muted-foreground font-mono truncate">
-                {trimStringSafe(ruleToDelete.pattern, 60)}
+                {getTypeDisplay(ruleToDelete).detail(ruleToDelete)}
               </div>
             </div>
           )}
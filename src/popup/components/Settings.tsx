@@ -17,11 +17,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type {
+  ComplianceProfileId,
   ExtensionSettings,
+  IdCountry,
   OverlayMode,
+  SanitizationRule,
   SupportedSite,
 } from "@/shared/types";
 import { storage } from "@/shared/storage";
+import { ID_COUNTRIES } from "@/shared/constants";
+import {
+  applyComplianceProfile,
+  COMPLIANCE_PROFILES,
+  getUncoveredIdentifiers,
+} from "@/shared/profiles";
 import {
   Download,
   Upload,
@@ -32,10 +41,13 @@ import {
   RefreshCw,
   Github,
   HelpCircle,
+  Eraser,
+  AlertTriangle,
 } from "lucide-react";
 
 interface SettingsProps {
   settings: ExtensionSettings;
+  rules: SanitizationRule[];
   onUpdate: (updates: Partial<ExtensionSettings>) => void;
 }
 
@@ -57,7 +69,7 @@ const SUPPORTED_SITES: Set<SupportedSite> = new Set([
   "copilot",
 ]);
 
-export function Settings({ settings, onUpdate }: SettingsProps) {
+export function Settings({ settings, rules, onUpdate }: SettingsProps) {
   const handleSiteToggle = (site: SupportedSite) => {
     const sites = settings.enabledSites.includes(site)
       ? settings.enabledSites.filter((s) => s !== site)
@@ -65,6 +77,27 @@ export function Settings({ settings, onUpdate }: SettingsProps) {
     onUpdate({ enabledSites: sites });
   };
 
+  const handleIdCountryToggle = (country: IdCountry) => {
+    const countries = settings.idCountries.includes(country)
+      ? settings.idCountries.filter((c) => c !== country)
+      : [...settings.idCountries, country];
+    void storage.setIdCountries(countries);
+  };
+
+  const handleProfileToggle = (profile: ComplianceProfileId) => {
+    onUpdate({
+      complianceProfile:
+        settings.complianceProfile === profile ? null : profile,
+    });
+  };
+
+  const uncoveredIdentifiers = settings.complianceProfile
+    ? getUncoveredIdentifiers(
+        applyComplianceProfile(rules, settings.complianceProfile),
+        settings.complianceProfile
+      )
+    : [];
+
   const handleExport = async () => {
     const json = await storage.exportRules();
     const blob = new Blob([json], { type: "application/json" });
@@ -119,6 +152,17 @@ export function Settings({ settings, onUpdate }: SettingsProps) {
     }
   };
 
+  const handleClearVaults = async () => {
+    if (
+      confirm(
+        "Are you sure you want to forget the masked values of all conversations? Tokens will be renumbered from 1 and older responses can no longer show original values."
+      )
+    ) {
+      await storage.clearVaults();
+      alert("Conversation history has been cleared");
+    }
+  };
+
   const handleDeleteAllRules = async () => {
     if (
       confirm(
@@ -194,6 +238,30 @@ export function Settings({ settings, onUpdate }: SettingsProps) {
                 </Select>
               </div>
             )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1.5">
+                <Label>Show originals in responses</Label>
+                <Tooltip>
+                  <TooltipTrigger>
+                    <Info className="w-3.5 h-3.5 text-muted-foreground" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-[200px]">
+                      Displays your original values in place of masked tokens
+                      like [EMAIL]_1 in LLM replies. Only changes what you see;
+                      click a value to toggle it.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Switch
+                checked={settings.rehydrateResponses}
+                onCheckedChange={(checked) =>
+                  onUpdate({ rehydrateResponses: checked })
+                }
+              />
+            </div>
           </div>
         </div>
 
@@ -270,6 +338,109 @@ export function Settings({ settings, onUpdate }: SettingsProps) {
 
         <Separator />
 
+        {/* National ID pack */}
+        <div>
+          <h3 className="font-medium mb-3 flex items-center gap-1.5">
+            National IDs
+            <Tooltip>
+              <TooltipTrigger>
+                <Info className="w-3.5 h-3.5 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="max-w-[200px]">
+                  Turns on the ID rules of each selected country. Matches are
+                  only masked when their checksum is valid.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </h3>
+          <div className="space-y-2">
+            {(Object.keys(ID_COUNTRIES) as IdCountry[]).map((country) => (
+              <div
+                key={country}
+                className="flex items-center gap-3 p-3 rounded-lg border"
+              >
+                <Switch
+                  checked={settings.idCountries.includes(country)}
+                  onCheckedChange={() => handleIdCountryToggle(country)}
+                />
+                <div>
+                  <span className="font-medium text-sm">
+                    {ID_COUNTRIES[country].name}
+                  </span>
+                  <p className="text-xs text-muted-foreground">
+                    {ID_COUNTRIES[country].ids}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Compliance profiles */}
+        <div>
+          <h3 className="font-medium mb-3 flex items-center gap-1.5">
+            Compliance Profile
+            <Tooltip>
+              <TooltipTrigger>
+                <Info className="w-3.5 h-3.5 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="max-w-[200px]">
+                  Turns on every rule the profile needs while it is active. Your
+                  own rule settings come back when you turn it off.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </h3>
+          <div className="space-y-2">
+            {(Object.keys(COMPLIANCE_PROFILES) as ComplianceProfileId[]).map(
+              (profile) => (
+                <div
+                  key={profile}
+                  className="flex items-center gap-3 p-3 rounded-lg border"
+                >
+                  <Switch
+                    checked={settings.complianceProfile === profile}
+                    onCheckedChange={() => handleProfileToggle(profile)}
+                  />
+                  <div>
+                    <span className="font-medium text-sm">
+                      {COMPLIANCE_PROFILES[profile].name}
+                    </span>
+                    <p className="text-xs text-muted-foreground">
+                      {COMPLIANCE_PROFILES[profile].description}
+                    </p>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+          {uncoveredIdentifiers.length > 0 && (
+            <div className="mt-3 space-y-1.5">
+              <p className="text-xs font-medium">Not covered by the rules:</p>
+              {uncoveredIdentifiers.map((identifier) => (
+                <div
+                  key={identifier.id}
+                  className="flex items-start gap-1.5 text-xs text-muted-foreground"
+                >
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-amber-600" />
+                  <span>
+                    <span className="font-medium text-foreground">
+                      {identifier.name}
+                    </span>
+                    {identifier.note && ` - ${identifier.note}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
         {/* Import/Export */}
         <div>
           <h3 className="font-medium mb-3 flex items-center gap-1.5">
@@ -351,6 +522,15 @@ export function Settings({ settings, onUpdate }: SettingsProps) {
               <RefreshCw className="w-4 h-4 mr-1.5" />
               Reset to Default Settings
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={handleClearVaults}
+            >
+              <Eraser className="w-4 h-4 mr-1.5" />
+              Clear Conversation History
+            </Button>
             <Button
               variant="outline"
               size="sm"
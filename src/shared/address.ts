@@ -0,0 +1,320 @@
+type Range = { start: number; end: number };
+
+// Title-case and upper-case spellings of marker words ("Street", "STREET")
+const words = (list: string[]) =>
+  list.flatMap((word) => [word, word.toUpperCase()]).join("|");
+
+const STREET_SUFFIXES = words([
+  "Street",
+  "St",
+  "Avenue",
+  "Ave",
+  "Road",
+  "Rd",
+  "Boulevard",
+  "Blvd",
+  "Lane",
+  "Ln",
+  "Drive",
+  "Dr",
+  "Court",
+  "Ct",
+  "Place",
+  "Pl",
+  "Terrace",
+  "Way",
+  "Parkway",
+  "Pkwy",
+  "Highway",
+  "Hwy",
+  "Circle",
+  "Cir",
+  "Square",
+  "Sq",
+  "Crescent",
+  "Close",
+  "Gardens",
+  "Grove",
+  "Row",
+  "Trail",
+  "Alley",
+  "Plaza",
+  "Mews",
+  "Walk",
+  "Marg",
+  "Nagar",
+  "Cross",
+]);
+
+// "1600 Pennsylvania Avenue NW"
+const DIRECTION = "N|S|E|W|NE|NW|SE|SW";
+
+// Street types written before the name, e.g. "Rue de Rivoli", "Via Roma"
+const STREET_TYPES = words([
+  "Rue",
+  "Avenue",
+  "Boulevard",
+  "Chemin",
+  "Allée",
+  "Impasse",
+  "Quai",
+  "Calle",
+  "Carrer",
+  "Avenida",
+  "Paseo",
+  "Plaza",
+  "Via",
+  "Viale",
+  "Piazza",
+  "Corso",
+  "Rua",
+  "Praça",
+]);
+
+// German/Dutch/Nordic street names ending in their type ("Hauptstraße")
+const COMPOUND_STREET = String.raw`\p{Lu}[\p{Ll}ß]+(?:-\p{Lu}?[\p{Ll}ß]+)*(?:straße|strasse|str\.|weg|gasse|allee|platz|ring|damm|ufer|laan|straat|gracht|plein|vej|gade|gatan|veien)`;
+
+const UNIT = String.raw`(?:${words(["Apt", "Apartment", "Suite", "Ste", "Unit", "Flat", "Floor", "Fl", "Room", "Rm", "Building", "Bldg", "Block"])})\.?\s*#?[A-Z0-9][A-Z0-9-]*|#\s?\d+[A-Z]?`;
+
+const NAME_WORD = String.raw`(?:\p{Lu}[\p{L}'’.-]*|\d+(?:st|nd|rd|th))`;
+// Units after a number that start prose, not a street name ("5 Miles Road
+// test", "30 Sec Walk")
+const MEASURE = words([
+  "Mile",
+  "Miles",
+  "Mi",
+  "Km",
+  "Kilometers",
+  "Meters",
+  "Feet",
+  "Ft",
+  "Yards",
+  "Steps",
+  "Laps",
+  "Sec",
+  "Secs",
+  "Seconds",
+  "Min",
+  "Mins",
+  "Minutes",
+  "Hour",
+  "Hours",
+  "Hrs",
+  "Days",
+  "Weeks",
+  "Months",
+  "Years",
+  "Times",
+  "Percent",
+  "Points",
+]);
+const HOUSE_NUMBER = String.raw`\d{1,6}[A-Za-z]?(?:[-/]\d{1,6}[A-Za-z]?)?`;
+const CITY = String.raw`\p{Lu}[\p{L}.'’-]*(?:[ -]\p{Lu}[\p{L}.'’-]*){0,3}`;
+
+const US_STATES =
+  "AL|AK|AZ|AR|CA|CO|CT|DE|DC|FL|GA|HI|ID|IL|IN|IA|KS|KY|LA|ME|MD|MA|MI|MN|MS|MO|MT|NE|NV|NH|NJ|NM|NY|NC|ND|OH|OK|OR|PA|RI|SC|SD|TN|TX|UT|VT|VA|WA|WV|WI|WY|PR";
+const CA_PROVINCES = "AB|BC|MB|NB|NL|NS|NT|NU|ON|PE|QC|SK|YT";
+
+const UK_POSTCODE = String.raw`(?:[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}|GIR\s?0AA)`;
+const CA_POSTCODE = String.raw`[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\s?\d[ABCEGHJ-NPRSTV-Z]\d`;
+const IN_PIN = String.raw`[1-9]\d{2}\s?\d{3}`;
+// "IL 62704", "ON M5V 3L9"
+const STATE_ZIP = String.raw`(?:${US_STATES})\.?\s+\d{5}(?:-\d{4})?|(?:${CA_PROVINCES})\.?\s+${CA_POSTCODE}`;
+// "PIN: 560001"
+const PIN_CODE = String.raw`(?:PIN|Pin|Pincode|PIN ?[Cc]ode|Pin ?code)\s*:?\s*${IN_PIN}`;
+// 4-5 digits (optionally with a country prefix, "D-10115"), Dutch
+// "1012 AB", Polish/Portuguese "00-950" / "1000-001"
+const EU_POSTCODE = String.raw`(?:[A-Z]{1,2}-)?\d{4,5}|\d{4}\s?[A-Z]{2}|\d{2,4}-\d{3}`;
+// "London NW1 6XE", "Mumbai - 400001", "10115 Berlin"
+const postal = (postcode: string) =>
+  String.raw`(?:${CITY}\s+(?:-\s+)?)?(?:${postcode})(?:\s+${CITY})?`;
+// Numeric postcodes look like any other number (a year, an amount), so
+// they only count after a comma or at the start of a line
+const LETTER_POSTAL = postal(`${UK_POSTCODE}|${CA_POSTCODE}`);
+const POSTAL = postal(`${UK_POSTCODE}|${CA_POSTCODE}|${IN_PIN}|${EU_POSTCODE}`);
+
+const COUNTRY = [
+  "USA",
+  "U\\.S\\.A\\.",
+  "United States(?: of America)?",
+  "UK",
+  "United Kingdom",
+  "England",
+  "Scotland",
+  "Wales",
+  "Canada",
+  "India",
+  "Ireland",
+  "Germany",
+  "Deutschland",
+  "France",
+  "Spain",
+  "España",
+  "Italy",
+  "Italia",
+  "Netherlands",
+  "Nederland",
+  "Belgium",
+  "Portugal",
+  "Poland",
+  "Austria",
+  "Switzerland",
+  "Sweden",
+  "Denmark",
+  "Norway",
+  "Australia",
+].join("|");
+
+const COMPONENT = `(?:${UNIT}|${STATE_ZIP}|${PIN_CODE}|${POSTAL}|(?:${COUNTRY}))`;
+const END = String.raw`(?![\p{L}\p{N}])`;
+// Components that may follow without a comma
+const SPACED_COMPONENT = `(?:${UNIT}|${STATE_ZIP}|${PIN_CODE}|${LETTER_POSTAL}|(?:${COUNTRY}))`;
+// The next component on a line: ", 10115 Berlin", " IL 62704", ", Springfield"
+const NEXT_COMPONENT = String.raw`(?:,\s*${COMPONENT}|\s+${SPACED_COMPONENT})${END}|,\s*${CITY}${END}`;
+
+// Street lines, each anchoring an address
+const STREETS = [
+  // "221B Baker Street", "Flat 2, 10 Downing St."
+  String.raw`(?:(?:${UNIT}),?\s+)?${HOUSE_NUMBER},?\s+(?!(?:${MEASURE})${END})(?:${NAME_WORD}\s+){1,4}(?:${STREET_SUFFIXES})\.?(?:\s+(?:${DIRECTION})${END})?${END}`,
+  // "12 rue de Rivoli"
+  String.raw`${HOUSE_NUMBER}(?:\s?(?:bis|ter))?,?\s+(?:${STREET_TYPES}|rue|avenue|boulevard|chemin|allée|impasse|quai|place)\s+(?:(?:de la|de|du|des|la|le|les|d')\s*)?(?:${NAME_WORD}\s*){1,4}`,
+  // "Calle Mayor 5", "Via Roma, 10", "Hauptstraße 5a"
+  String.raw`(?:(?:${STREET_TYPES})\s+(?:(?:de la|de|del|della|di|du|des|da|do|dos|das|la|le|les)\s+)?(?:${NAME_WORD}\s+){0,3}${NAME_WORD}|${COMPOUND_STREET})(?:,\s*|\s+)(?:n[º°.]\s*)?\d{1,4}[a-zA-Z]?${END}`,
+].map((source) => new RegExp(String.raw`(?<![\p{L}\p{N}])(?:${source})`, "gu"));
+
+// More of the address on the same line: ", Apt 4", ", London NW1 6XE",
+// ", Springfield", ", IL 62704", ", USA"
+const LINE_EXTENSION = new RegExp(NEXT_COMPONENT, "uy");
+
+// A whole line that continues an address block
+const COMPONENT_LINE = new RegExp(
+  String.raw`^(?:${CITY},\s*)?${COMPONENT}${END}(?:${NEXT_COMPONENT})*\s*[,.]?$`,
+  "u"
+);
+const CITY_LINE = new RegExp(String.raw`^${CITY}\s*,?$`, "u");
+const UNIT_LINE = new RegExp(String.raw`^(?:${UNIT})\s*,?$`, "u");
+
+const POSTCODE_LABEL = String.raw`(?:Postcode|Post [Cc]ode|Postal [Cc]ode|POSTCODE|POSTAL CODE)\s*:?\s*`;
+const LETTER_POSTCODE = String.raw`(?:[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}|${CA_POSTCODE})`;
+
+// Address parts recognized on their own: "Springfield, IL 62704",
+// UK/Canadian postcodes after a city and comma, a "Postcode" label or on a
+// line of their own, Indian PIN codes after "PIN"
+const STANDALONE = [
+  String.raw`${CITY},?\s+(?:${STATE_ZIP})`,
+  String.raw`(?:${CITY},\s*|${POSTCODE_LABEL})${LETTER_POSTCODE}`,
+  String.raw`^[ \t]*${LETTER_POSTCODE}(?=[ \t]*$)`,
+  PIN_CODE,
+].map(
+  (source) =>
+    new RegExp(String.raw`(?<![\p{L}\p{N}])(?:${source})${END}`, "gmu")
+);
+
+/**
+ * Find postal addresses in text, one range per address
+ *
+ * An address is anchored by a street line (house number and street suffix,
+ * or a street type and house number in European order) and extends over
+ * units, city, state/ZIP, postcodes and country on the same line and the
+ * lines right below it (numeric postcodes only after a comma or line
+ * break). US city/state/ZIP lines, UK and Canadian postcodes in an address
+ * context and Indian PIN codes also count on their own.
+ */
+export function findAddressMatches(text: string): Range[] {
+  const lines = splitLines(text);
+  const found: Range[] = [];
+
+  lines.forEach((line, index) => {
+    for (const street of STREETS) {
+      for (const match of line.text.matchAll(street)) {
+        let end = extendOnLine(line.text, match.index + match[0].length);
+        let start = match.index;
+
+        // Lines below (and a unit line above) complete a block address
+        if (!line.text.slice(end).trim().replace(/^[,.]/, "")) {
+          let next = index + 1;
+          while (next < lines.length) {
+            const current = lines[next].text.trim();
+            if (!COMPONENT_LINE.test(current)) {
+              // A bare place name only counts before more address parts
+              const after = lines[next + 1]?.text.trim() ?? "";
+              if (!CITY_LINE.test(current) || !COMPONENT_LINE.test(after)) {
+                break;
+              }
+            }
+            next++;
+          }
+          if (next > index + 1) {
+            const last = lines[next - 1];
+            end = last.text.trimEnd().length + last.start - line.start;
+          }
+        }
+        if (!line.text.slice(0, start).trim() && index > 0) {
+          const previous = lines[index - 1];
+          if (UNIT_LINE.test(previous.text.trim())) {
+            start = previous.start - line.start + leadingSpace(previous.text);
+          }
+        }
+
+        found.push({ start: line.start + start, end: line.start + end });
+      }
+    }
+  });
+
+  for (const pattern of STANDALONE) {
+    for (const match of text.matchAll(pattern)) {
+      found.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  // Overlapping ranges are parts of the same address
+  const ranges: Range[] = [];
+  const sorted = found.sort(
+    (a, b) => a.start - b.start || b.end - b.start - (a.end - a.start)
+  );
+  for (const range of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && range.start < last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      ranges.push({ ...range });
+    }
+  }
+  return ranges.map((range) => trimRange(text, range));
+}
+
+/**
+ * Follow the address along its line from an index, returning where it ends
+ */
+function extendOnLine(line: string, index: number): number {
+  let end = index;
+  for (;;) {
+    LINE_EXTENSION.lastIndex = end;
+    const match = LINE_EXTENSION.exec(line);
+    if (!match) return end;
+    end = LINE_EXTENSION.lastIndex;
+  }
+}
+
+function leadingSpace(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Trailing punctuation belongs to the sentence, not the address (except
+// the dot of an abbreviation such as "St." or "U.S.A.")
+function trimRange(text: string, range: Range): Range {
+  let end = range.end;
+  while (end > range.start && /[\s,]/.test(text[end - 1])) end--;
+  if (/\p{L}{4,}\.$/u.test(text.slice(range.start, end))) end--;
+  return { start: range.start, end };
+}
+
+function splitLines(text: string): { start: number; text: string }[] {
+  const lines: { start: number; text: string }[] = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ start, text: line });
+    start += line.length + 1;
+  }
+  return lines;
+}
@@ -0,0 +1,52 @@
+import type { AllowlistEntry } from "./types";
+
+// Compiled regex entries, keyed by pattern
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Whether a matched value is allowed by any of the entries
+ * Literal entries compare case-insensitively, regex entries must match the
+ * whole value. Invalid regex entries never match.
+ */
+export function isAllowed(
+  value: string,
+  entries: AllowlistEntry[] | undefined
+): boolean {
+  if (!entries?.length) return false;
+
+  const normalized = value.trim().toLowerCase();
+  return entries.some((entry) => {
+    if (!entry.isRegex) {
+      return entry.pattern.trim().toLowerCase() === normalized;
+    }
+    return compileEntry(entry.pattern)?.test(value) ?? false;
+  });
+}
+
+/**
+ * Create an allowlist entry
+ */
+export function createAllowlistEntry(
+  pattern: string,
+  isRegex: boolean
+): AllowlistEntry {
+  return {
+    id: crypto.randomUUID(),
+    pattern,
+    isRegex,
+    createdAt: Date.now(),
+  };
+}
+
+function compileEntry(pattern: string): RegExp | null {
+  let regex = regexCache.get(pattern);
+  if (regex === undefined) {
+    try {
+      regex = new RegExp(`^(?:${pattern})$`, "i");
+    } catch {
+      regex = null;
+    }
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
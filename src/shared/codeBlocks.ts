@@ -0,0 +1,152 @@
+import type { RuleScope } from "./types";
+
+/**
+ * A span of code in Markdown prompt text (end is exclusive)
+ * - fenced: ``` or ~~~ block, fences included
+ * - indented: lines indented by 4+ spaces or a tab after a blank line
+ * - inline: `code` within prose, backticks included
+ */
+export interface CodeRange {
+  start: number;
+  end: number;
+  kind: "fenced" | "indented" | "inline";
+}
+
+// Opening fence: up to 3 spaces, 3+ backticks or tildes, optional info string
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})([^\n]*)$/;
+
+const INDENTED_LINE = /^(?: {4}|\t)/;
+
+/**
+ * Find the code blocks and inline code spans of Markdown text
+ * Returns non-overlapping ranges sorted by position. An unclosed fence runs
+ * to the end of the text, like Markdown renderers show it.
+ */
+export function findCodeRanges(text: string): CodeRange[] {
+  const blocks = findCodeBlocks(text);
+  const ranges: CodeRange[] = [];
+
+  // Inline code only exists in the prose between blocks
+  let proseStart = 0;
+  for (const block of [...blocks, null]) {
+    const proseEnd = block ? block.start : text.length;
+    ranges.push(...findInlineCode(text, proseStart, proseEnd));
+    if (block) {
+      ranges.push(block);
+      proseStart = block.end;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Whether a match lies in the scope a rule applies to
+ * Prose rules skip matches touching code, code rules only keep matches
+ * entirely inside code.
+ */
+export function isInScope(
+  ranges: CodeRange[],
+  start: number,
+  end: number,
+  scope: RuleScope = "all"
+): boolean {
+  if (scope === "all") return true;
+
+  // First range ending after the match starts
+  let lo = 0;
+  let hi = ranges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].end <= start) lo = mid + 1;
+    else hi = mid;
+  }
+  const range = ranges[lo];
+
+  if (scope === "prose") return !range || range.start >= end;
+  return !!range && range.start <= start && end <= range.end;
+}
+
+function findCodeBlocks(text: string): CodeRange[] {
+  const lines = splitLines(text);
+  const blocks: CodeRange[] = [];
+  let previousBlank = true;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE_OPEN.exec(line.text);
+    // Backtick fences can't have backticks in their info string
+    if (fence && !(fence[1][0] === "`" && fence[2].includes("`"))) {
+      const closing = new RegExp(
+        `^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`
+      );
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end].text)) end++;
+      const last = lines[Math.min(end, lines.length - 1)];
+      blocks.push({ start: line.start, end: last.end, kind: "fenced" });
+      i = end;
+      previousBlank = false;
+      continue;
+    }
+
+    // Indented blocks can't interrupt a paragraph
+    if (previousBlank && line.text.trim() && INDENTED_LINE.test(line.text)) {
+      let end = i;
+      for (let next = i + 1; next < lines.length; next++) {
+        if (INDENTED_LINE.test(lines[next].text) && lines[next].text.trim()) {
+          end = next;
+        } else if (lines[next].text.trim()) {
+          break;
+        }
+      }
+      blocks.push({ start: line.start, end: lines[end].end, kind: "indented" });
+      i = end;
+      previousBlank = false;
+      continue;
+    }
+
+    previousBlank = !line.text.trim();
+  }
+  return blocks;
+}
+
+/**
+ * Inline code spans between start and end: a run of backticks closed by a
+ * run of the same length, within one paragraph
+ */
+function findInlineCode(text: string, start: number, end: number): CodeRange[] {
+  const ranges: CodeRange[] = [];
+  const prose = text.slice(start, end);
+  const opener = /`+/g;
+
+  let match;
+  while ((match = opener.exec(prose)) !== null) {
+    const ticks = match[0];
+    const closer = new RegExp(`(?<!\`)${ticks}(?!\`)`, "g");
+    closer.lastIndex = match.index + ticks.length;
+    const close = closer.exec(prose);
+    if (!close || /\n[ \t]*\n/.test(prose.slice(match.index, close.index))) {
+      // No matching closer: the backticks are literal text
+      continue;
+    }
+
+    ranges.push({
+      start: start + match.index,
+      end: start + close.index + ticks.length,
+      kind: "inline",
+    });
+    opener.lastIndex = close.index + ticks.length;
+  }
+  return ranges;
+}
+
+function splitLines(
+  text: string
+): { start: number; end: number; text: string }[] {
+  const lines: { start: number; end: number; text: string }[] = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ start, end: start + line.length, text: line });
+    start += line.length + 1;
+  }
+  return lines;
+}
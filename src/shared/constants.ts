@@ -1,4 +1,4 @@
-import type { SanitizationRule } from "./types";
+import type { IdCountry, SanitizationRule } from "./types";
 
 /**
  * Extension constants
@@ -15,8 +15,15 @@ export const STORAGE_KEYS = {
   SETTINGS: "settings",
   SYNC_META: "syncMeta",
   OVERLAY_POSITIONS: "overlayPositions",
+  VAULTS: "vaults",
+  ALLOWLIST: "allowlist",
 } as const;
 
+/**
+ * Maximum number of conversation vaults kept (least recently used are dropped)
+ */
+export const MAX_VAULTS = 200;
+
 /**
  * Message types for cross-context communication
  */
@@ -38,13 +45,21 @@ export const CSS_PREFIX = "pii-masker";
 export const OVERLAY_Z_INDEX = 2147483647;
 
 /**
- * Default system rules for PII masking
- * These rules are enabled by default on first install
+ * Time a single rule may take on one text before it's disabled (ms)
  */
-export const DEFAULT_RULES: Omit<
-  SanitizationRule,
-  "createdAt" | "updatedAt"
->[] = [
+export const RULE_TIME_BUDGET_MS = 250;
+
+/**
+ * Version of the bundled system rules
+ * Bump when DEFAULT_RULES gain new fields or rules so stored copies get
+ * migrated (new rules also need an entry in SYSTEM_RULES_ADDED_IN)
+ */
+export const RULES_VERSION = 11;
+
+/**
+ * System rules for personal data
+ */
+const PII_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
   {
     id: "sys-email",
     name: "Email Addresses",
@@ -53,6 +68,7 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "gi",
     enabled: true,
+    severity: "medium",
     category: "PII",
     isSystem: true,
   },
@@ -64,6 +80,7 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    severity: "medium",
     category: "PII",
     isSystem: true,
   },
@@ -75,6 +92,8 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    validator: "ssn",
+    severity: "high",
     category: "PII",
     isSystem: true,
   },
@@ -86,6 +105,8 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    validator: "luhn",
+    severity: "high",
     category: "Financial",
     isSystem: true,
   },
@@ -97,6 +118,8 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    validator: "ipv4",
+    severity: "low",
     category: "Technical",
     isSystem: true,
   },
@@ -108,6 +131,8 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    validator: "verhoeff",
+    severity: "high",
     category: "PII",
     isSystem: true,
   },
@@ -119,7 +144,834 @@ export const DEFAULT_RULES: Omit<
     isRegex: true,
     flags: "g",
     enabled: true,
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+];
+
+/**
+ * Developer secrets pack: credentials that show up in pasted config and logs
+ * Secrets win overlaps with the generic PII rules (e.g. an email-like
+ * "password@host" inside a connection string).
+ */
+const DEVELOPER_SECRET_RULES: Omit<
+  SanitizationRule,
+  "createdAt" | "updatedAt"
+>[] = [
+  {
+    id: "sys-aws-access-key",
+    name: "AWS Access Key ID",
+    pattern: "\\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\\b",
+    replacement: "[AWS_ACCESS_KEY]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Cloud",
+    isSystem: true,
+  },
+  {
+    id: "sys-aws-secret-key",
+    name: "AWS Secret Access Key",
+    pattern:
+      "(?:aws_?secret_?access_?key|aws_?secret_?key|secret_?access_?key)[\"']?\\s*[:=]\\s*[\"']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])",
+    replacement: "[AWS_SECRET_KEY]",
+    isRegex: true,
+    flags: "gi",
+    maskGroup: "1",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Cloud",
+    isSystem: true,
+  },
+  {
+    id: "sys-github-token",
+    name: "GitHub Token",
+    pattern:
+      "\\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\\b",
+    replacement: "[GITHUB_TOKEN]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Source Control",
+    isSystem: true,
+  },
+  {
+    id: "sys-gitlab-token",
+    name: "GitLab Token",
+    pattern: "\\bgl(?:pat|ptt|rt|dt)-[A-Za-z0-9_-]{20,}",
+    replacement: "[GITLAB_TOKEN]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Source Control",
+    isSystem: true,
+  },
+  {
+    id: "sys-slack-token",
+    name: "Slack Token",
+    pattern: "\\bxox[abposr]-[A-Za-z0-9-]{10,}",
+    replacement: "[SLACK_TOKEN]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Messaging",
+    isSystem: true,
+  },
+  {
+    id: "sys-slack-webhook",
+    name: "Slack Webhook URL",
+    pattern:
+      "https://hooks\\.slack\\.com/(?:services|workflows|triggers)/[A-Za-z0-9_/-]+",
+    replacement: "[SLACK_WEBHOOK]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Messaging",
+    isSystem: true,
+  },
+  {
+    id: "sys-stripe-key",
+    name: "Stripe API Key",
+    pattern: "\\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{10,99}\\b",
+    replacement: "[STRIPE_KEY]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Payments",
+    isSystem: true,
+  },
+  {
+    id: "sys-google-api-key",
+    name: "Google API Key",
+    pattern: "\\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])",
+    replacement: "[GOOGLE_API_KEY]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Cloud",
+    isSystem: true,
+  },
+  {
+    id: "sys-jwt",
+    name: "JSON Web Token",
+    pattern: "\\beyJ[A-Za-z0-9_-]{5,}\\.eyJ[A-Za-z0-9_-]{5,}\\.[A-Za-z0-9_-]*",
+    replacement: "[JWT]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Authentication",
+    isSystem: true,
+  },
+  {
+    id: "sys-private-key",
+    name: "PEM Private Key",
+    pattern:
+      "-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\\s\\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----",
+    replacement: "[PRIVATE_KEY]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Authentication",
+    isSystem: true,
+  },
+  {
+    id: "sys-db-connection-password",
+    name: "Database Connection Password",
+    pattern:
+      "\\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\\+srv)?|rediss?|amqps?|mssql|sqlserver)://[^\\s:/@]+:([^\\s@/]+)@",
+    replacement: "[DB_PASSWORD]",
+    isRegex: true,
+    flags: "gi",
+    maskGroup: "1",
+    enabled: true,
+    priority: 10,
+    severity: "critical",
+    category: "Database",
+    isSystem: true,
+  },
+];
+
+/**
+ * Rules for code pasted in Markdown code blocks or inline code
+ * Prose rules can be scoped away from code so masking doesn't break it,
+ * these cover what matters inside code instead.
+ */
+const CODE_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
+  {
+    id: "sys-code-hostname",
+    name: "Hostnames in Code",
+    pattern:
+      "\\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+(?:com|net|org|io|dev|app|cloud|ai|co|internal|local|localdomain|lan|corp|intranet)(?![\\w-]|\\.[a-z0-9])",
+    replacement: "[HOSTNAME]",
+    isRegex: true,
+    flags: "gi",
+    enabled: true,
+    scope: "code",
+    severity: "low",
+    category: "Technical",
+    isSystem: true,
+  },
+  {
+    id: "sys-code-string",
+    name: "String Literals in Code",
+    pattern: "([\"'])((?:\\\\.|(?!\\1)[^\\\\\\n])+)\\1",
+    replacement: "[STRING]",
+    isRegex: true,
+    flags: "g",
+    // Only the contents, so the code keeps its quotes and still parses
+    maskGroup: "2",
+    enabled: false,
+    // Values found by more specific rules keep their own token
+    priority: -1,
+    scope: "code",
+    severity: "low",
+    category: "Technical",
+    isSystem: true,
+  },
+];
+
+/**
+ * Financial pack: bank and crypto identifiers, each checked by its checksum
+ * Bare numbers (routing, account) and BIC-like words only count near words
+ * that name them.
+ */
+const FINANCIAL_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
+  {
+    id: "sys-iban",
+    name: "IBAN",
+    pattern: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\\b",
+    replacement: "[IBAN]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    validator: "iban",
+    severity: "high",
+    category: "Financial",
+    isSystem: true,
+  },
+  {
+    id: "sys-swift-bic",
+    name: "SWIFT/BIC Code",
+    pattern: "\\b[A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?\\b",
+    replacement: "[SWIFT_BIC]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    validator: "bic",
+    contextWords: ["swift", "bic", "bank", "wire", "transfer", "iban"],
+    severity: "low",
+    category: "Financial",
+    isSystem: true,
+  },
+  {
+    id: "sys-aba-routing",
+    name: "US ABA Routing Number",
+    pattern: "\\b\\d{9}\\b",
+    replacement: "[ROUTING_NUMBER]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    // Wins over the SSN pattern for the same nine digits
+    priority: 1,
+    validator: "aba",
+    contextWords: ["routing", "aba", "rtn", "ach", "wire", "transit"],
+    severity: "low",
+    category: "Financial",
+    isSystem: true,
+  },
+  {
+    id: "sys-bank-account",
+    name: "Bank Account Number",
+    pattern: "\\b\\d{6,17}\\b",
+    replacement: "[BANK_ACCOUNT]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    // More specific number rules keep their own token
+    priority: -1,
+    contextWords: ["account", "acct", "a/c", "checking", "savings"],
+    severity: "high",
+    category: "Financial",
+    isSystem: true,
+  },
+  {
+    id: "sys-bitcoin-address",
+    name: "Bitcoin Address",
+    pattern:
+      "\\b(?:[13][a-km-zA-HJ-NP-Z1-9]{25,34}|bc1[ac-hj-np-z02-9]{11,71})\\b",
+    replacement: "[BTC_ADDRESS]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    validator: "bitcoin",
+    severity: "medium",
+    category: "Financial",
+    isSystem: true,
+  },
+  {
+    id: "sys-ethereum-address",
+    name: "Ethereum Address",
+    pattern: "\\b0x[a-fA-F0-9]{40}\\b",
+    replacement: "[ETH_ADDRESS]",
+    isRegex: true,
+    flags: "g",
+    enabled: true,
+    validator: "eip55",
+    severity: "medium",
+    category: "Financial",
+    isSystem: true,
+  },
+];
+
+/**
+ * Date rules: dates of birth (dates next to words like "DOB" or "born") and,
+ * off by default, every other date. Both shift dates instead of masking
+ * them, so intervals (age, time between visits) survive.
+ */
+const DATE_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
+  {
+    id: "sys-date-of-birth",
+    name: "Date of Birth",
+    type: "date",
+    pattern: "",
+    replacement: "[DOB]",
+    isRegex: false,
+    enabled: true,
+    strategy: "shift",
+    // Wins over the general date rule and number patterns
+    priority: 1,
+    contextWords: [
+      "dob",
+      "d.o.b",
+      "born",
+      "birth",
+      "birthday",
+      "birthdate",
+      "date of birth",
+      "geboren",
+      "né",
+      "née",
+      "nacimiento",
+    ],
+    severity: "medium",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-dates",
+    name: "Dates",
+    type: "date",
+    pattern: "",
+    replacement: "[DATE]",
+    isRegex: false,
+    enabled: false,
+    strategy: "shift",
+    severity: "low",
+    category: "PII",
+    isSystem: true,
+  },
+];
+
+/**
+ * Health pack: identifiers HIPAA Safe Harbor lists that the other rules
+ * don't cover (off by default, turned on by the HIPAA profile)
+ * Most are plain numbers, so they only count near words that name them.
+ */
+const HEALTH_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
+  {
+    id: "sys-mrn",
+    name: "Medical Record Number",
+    pattern: "(?<![\\w-])(?:[A-Z]{1,3}-?)?\\d{5,10}(?![\\w-])",
+    replacement: "[MRN]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    // Wins over phone, account and ZIP patterns for the same digits
+    priority: 1,
+    contextWords: [
+      "mrn",
+      "medical record",
+      "record number",
+      "record no",
+      "chart number",
+      "patient id",
+      "patient number",
+    ],
+    severity: "high",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-health-plan-id",
+    name: "Health Plan Member ID",
+    pattern: "(?<![\\w-])[A-Z]{0,3}\\d{6,12}[A-Z]?(?![\\w-])",
+    replacement: "[HEALTH_PLAN_ID]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    contextWords: [
+      "member id",
+      "member number",
+      "subscriber",
+      "policy number",
+      "policy no",
+      "health plan",
+      "insurance id",
+      "beneficiary",
+      "group number",
+      "medicaid",
+    ],
+    severity: "high",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-medicare-mbi",
+    name: "Medicare Beneficiary Identifier",
+    pattern:
+      "\\b[1-9][AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\\d-?[AC-HJKMNP-RT-Y][AC-HJKMNP-RT-Y0-9]\\d-?[AC-HJKMNP-RT-Y]{2}\\d{2}\\b",
+    replacement: "[HEALTH_PLAN_ID]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    // Its exact format wins over the context-based number rules
+    priority: 2,
+    severity: "high",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-license-number",
+    name: "License and Certificate Number",
+    pattern: "(?<![\\w-])(?=[A-Z-]*\\d)[A-Z0-9][A-Z0-9-]{4,14}(?![\\w-])",
+    replacement: "[LICENSE_NUMBER]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    // Wins over plate-like matches near both words
+    priority: 1,
+    contextWords: [
+      "license",
+      "licence",
+      "certificate",
+      "certification",
+      "dea",
+      "npi",
+      "board number",
+    ],
+    severity: "medium",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-vin",
+    name: "Vehicle Identification Number",
+    pattern: "\\b[A-HJ-NPR-Z0-9]{17}\\b",
+    replacement: "[VIN]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    validator: "vin",
+    severity: "medium",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-license-plate",
+    name: "License Plate",
+    pattern:
+      "(?<![\\w-])(?=[A-Z-]*\\d)(?=[\\d-]*[A-Z])[A-Z0-9]{1,4}-?[A-Z0-9]{1,4}(?![\\w-])",
+    replacement: "[LICENSE_PLATE]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    contextWords: ["license plate", "plate", "registration", "reg no", "tag"],
+    severity: "low",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-device-id",
+    name: "Device Identifier / Serial Number",
+    pattern: "(?<![\\w-])(?=[A-Z-]*\\d)[A-Z0-9][A-Z0-9-]{5,24}(?![\\w-])",
+    replacement: "[DEVICE_ID]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    contextWords: [
+      "serial",
+      "s/n",
+      "sn",
+      "device",
+      "udi",
+      "imei",
+      "implant",
+      "pacemaker",
+    ],
+    severity: "medium",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-us-zip",
+    name: "US ZIP Code",
+    pattern: "\\b\\d{5}(?:-\\d{4})?\\b",
+    replacement: "[ZIP]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    contextWords: ["zip", "zip code", "zipcode", "postal code"],
+    severity: "low",
+    category: "Health",
+    isSystem: true,
+  },
+  {
+    id: "sys-web-url",
+    name: "Web Addresses",
+    pattern: "\\b(?:https?://|www\\.)[^\\s<>\"'()]*[^\\s<>\"'().,;:!?]",
+    replacement: "[URL]",
+    isRegex: true,
+    flags: "gi",
+    enabled: false,
+    // Masks the whole URL, so it wins over the URL credentials rule
+    priority: 11,
+    severity: "low",
+    category: "Health",
+    isSystem: true,
+  },
+];
+
+/**
+ * Countries of the national ID pack, with the IDs their rules find
+ */
+export const ID_COUNTRIES: Record<IdCountry, { name: string; ids: string }> = {
+  GB: { name: "United Kingdom", ids: "National Insurance, NHS number" },
+  CA: { name: "Canada", ids: "Social Insurance Number" },
+  DE: { name: "Germany", ids: "Steuer-ID" },
+  FR: { name: "France", ids: "INSEE (NIR)" },
+  ES: { name: "Spain", ids: "DNI, NIE" },
+  IT: { name: "Italy", ids: "Codice Fiscale" },
+  NL: { name: "Netherlands", ids: "BSN" },
+  BR: { name: "Brazil", ids: "CPF, CNPJ" },
+};
+
+/**
+ * National ID pack: off until its country is selected in Settings
+ * Every rule checks the ID's checksum, and validated IDs win overlaps with
+ * the looser phone/SSN patterns.
+ */
+const NATIONAL_ID_RULES: Omit<SanitizationRule, "createdAt" | "updatedAt">[] = [
+  {
+    id: "sys-id-gb-nino",
+    name: "UK National Insurance Number",
+    pattern:
+      "\\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\\d{2} ?\\d{2} ?\\d{2} ?[A-D]\\b",
+    replacement: "[UK_NINO]",
+    isRegex: true,
+    flags: "gi",
+    enabled: false,
+    priority: 1,
+    validator: "nino",
+    country: "GB",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-gb-nhs",
+    name: "UK NHS Number",
+    pattern: "\\b\\d{3}[ -]?\\d{3}[ -]?\\d{4}\\b",
+    replacement: "[NHS_NUMBER]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "nhs",
+    country: "GB",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-ca-sin",
+    name: "Canadian Social Insurance Number",
+    pattern: "\\b\\d{3}[ -]?\\d{3}[ -]?\\d{3}\\b",
+    replacement: "[CA_SIN]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "sin",
+    country: "CA",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-de-steuer-id",
+    name: "German Tax ID (Steuer-ID)",
+    pattern: "\\b[1-9]\\d(?: ?\\d{3}){3}\\b",
+    replacement: "[DE_TAX_ID]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "steuer-id",
+    country: "DE",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-fr-insee",
+    name: "French Social Security Number (INSEE)",
+    pattern:
+      "\\b[1-478] ?\\d{2} ?\\d{2} ?(?:\\d{2}|2[AB]) ?\\d{3} ?\\d{3} ?\\d{2}\\b",
+    replacement: "[FR_INSEE]",
+    isRegex: true,
+    flags: "gi",
+    enabled: false,
+    priority: 1,
+    validator: "insee",
+    country: "FR",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-es-dni",
+    name: "Spanish DNI/NIE",
+    pattern: "\\b(?:\\d{8}|[XYZ]-?\\d{7})-?[A-Z]\\b",
+    replacement: "[ES_DNI]",
+    isRegex: true,
+    flags: "gi",
+    enabled: false,
+    priority: 1,
+    validator: "dni",
+    country: "ES",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-it-codice-fiscale",
+    name: "Italian Codice Fiscale",
+    // Digits may be replaced by L-V letters for duplicate codes (omocodia)
+    pattern:
+      "\\b[A-Z]{6}[\\dLMNP-V]{2}[A-EHLMPR-T][\\dLMNP-V]{2}[A-Z][\\dLMNP-V]{3}[A-Z]\\b",
+    replacement: "[IT_CODICE_FISCALE]",
+    isRegex: true,
+    flags: "gi",
+    enabled: false,
+    priority: 1,
+    validator: "codice-fiscale",
+    country: "IT",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-nl-bsn",
+    name: "Dutch Citizen Service Number (BSN)",
+    pattern: "\\b\\d{4}\\.?\\d{2}\\.?\\d{3}\\b",
+    replacement: "[NL_BSN]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "bsn",
+    country: "NL",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-br-cpf",
+    name: "Brazilian CPF",
+    pattern: "\\b\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}\\b",
+    replacement: "[BR_CPF]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "cpf",
+    country: "BR",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+  {
+    id: "sys-id-br-cnpj",
+    name: "Brazilian CNPJ",
+    pattern: "\\b\\d{2}\\.?\\d{3}\\.?\\d{3}/?\\d{4}-?\\d{2}\\b",
+    replacement: "[BR_CNPJ]",
+    isRegex: true,
+    flags: "g",
+    enabled: false,
+    priority: 1,
+    validator: "cnpj",
+    country: "BR",
+    severity: "high",
+    category: "PII",
+    isSystem: true,
+  },
+];
+
+/**
+ * Rules version in which system rules were added after the first release
+ * Stored rules older than that version get these rules appended once, so a
+ * rule the user deleted later isn't brought back.
+ */
+export const SYSTEM_RULES_ADDED_IN: Record<string, number> = {
+  ...Object.fromEntries(DEVELOPER_SECRET_RULES.map((rule) => [rule.id, 2])),
+  "sys-structured-keys": 3,
+  ...Object.fromEntries(CODE_RULES.map((rule) => [rule.id, 4])),
+  "sys-url-secrets": 5,
+  ...Object.fromEntries(NATIONAL_ID_RULES.map((rule) => [rule.id, 6])),
+  ...Object.fromEntries(FINANCIAL_RULES.map((rule) => [rule.id, 7])),
+  "sys-address": 8,
+  ...Object.fromEntries(DATE_RULES.map((rule) => [rule.id, 9])),
+  ...Object.fromEntries(HEALTH_RULES.map((rule) => [rule.id, 10])),
+};
+
+/**
+ * Key and column names whose values are masked in pasted JSON, YAML, .env,
+ * SQL and CSV by default
+ */
+export const DEFAULT_SENSITIVE_KEYS = [
+  "password",
+  "passwd",
+  "pwd",
+  "pass",
+  "secret",
+  "token",
+  "api_key",
+  "apikey",
+  "access_key",
+  "private_key",
+  "client_secret",
+  "auth",
+  "authorization",
+  "credentials",
+  "ssn",
+  "email",
+  "phone",
+  "mobile",
+  "dob",
+  "date_of_birth",
+  "birthdate",
+  "credit_card",
+  "card_number",
+  "cvv",
+  "iban",
+  "account_number",
+  "passport",
+  "address",
+];
+
+/**
+ * Query and fragment parameters whose values are masked in URLs by default
+ * (signed links, OAuth redirects, presigned cloud storage URLs)
+ */
+export const DEFAULT_SENSITIVE_QUERY_PARAMS = [
+  "token",
+  "access_token",
+  "id_token",
+  "refresh_token",
+  "auth",
+  "code",
+  "key",
+  "api_key",
+  "apikey",
+  "secret",
+  "client_secret",
+  "password",
+  "sig",
+  "signature",
+  "session",
+  "sessionid",
+  "X-Amz-Signature",
+  "X-Amz-Credential",
+  "X-Amz-Security-Token",
+  "X-Goog-Signature",
+  "X-Goog-Credential",
+];
+
+/**
+ * Default system rules for PII masking
+ * These rules are enabled by default on first install
+ */
+export const DEFAULT_RULES: Omit<
+  SanitizationRule,
+  "createdAt" | "updatedAt"
+>[] = [
+  ...PII_RULES,
+  ...DEVELOPER_SECRET_RULES,
+  {
+    id: "sys-structured-keys",
+    name: "Sensitive Keys in Structured Data",
+    type: "structured",
+    pattern: "",
+    keys: DEFAULT_SENSITIVE_KEYS,
+    replacement: "[REDACTED]",
+    isRegex: false,
+    enabled: true,
+    severity: "high",
+    category: "Technical",
+    isSystem: true,
+  },
+  ...CODE_RULES,
+  {
+    id: "sys-url-secrets",
+    name: "URL Credentials and Tokens",
+    type: "url",
+    pattern: "",
+    queryParams: DEFAULT_SENSITIVE_QUERY_PARAMS,
+    internalDomains: [],
+    replacement: "[REDACTED]",
+    isRegex: false,
+    enabled: true,
+    // Credentials win over e.g. an email-like "pass@host" in the userinfo
+    priority: 10,
+    severity: "critical",
+    category: "Technical",
+    isSystem: true,
+  },
+  ...NATIONAL_ID_RULES,
+  ...FINANCIAL_RULES,
+  {
+    id: "sys-address",
+    name: "Postal Addresses",
+    type: "address",
+    pattern: "",
+    replacement: "[ADDRESS]",
+    isRegex: false,
+    enabled: true,
+    severity: "medium",
     category: "PII",
     isSystem: true,
   },
+  ...DATE_RULES,
+  ...HEALTH_RULES,
 ];
@@ -0,0 +1,78 @@
+import type { SanitizationRule } from "./types";
+
+/**
+ * How many characters on each side of a match are searched for context
+ * words by default
+ */
+export const DEFAULT_CONTEXT_WINDOW = 50;
+
+/**
+ * Whether a rule only trusts matches based on nearby words
+ */
+export function hasContextCondition(
+  rule: Pick<SanitizationRule, "contextWords" | "negativeContextWords">
+): boolean {
+  return !!(rule.contextWords?.length || rule.negativeContextWords?.length);
+}
+
+/**
+ * Check the context condition of a rule around a match
+ *
+ * The condition holds when at least one context word (if any are set) and
+ * none of the negative context words appear within the window before or
+ * after the match. Words match case-insensitively and on word boundaries.
+ */
+export function matchesContext(
+  text: string,
+  start: number,
+  end: number,
+  rule: Pick<
+    SanitizationRule,
+    "contextWords" | "negativeContextWords" | "contextWindow"
+  >
+): boolean {
+  if (!hasContextCondition(rule)) return true;
+
+  const window = rule.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const before = text.slice(Math.max(0, start - window), start);
+  const after = text.slice(end, end + window);
+  // Keep the sides apart so a word can't be formed across the match
+  const surroundings = `${before}\n${after}`.toLowerCase();
+
+  const found = (word: string) => containsWord(surroundings, word);
+  if (rule.negativeContextWords?.some(found)) return false;
+  return !rule.contextWords?.length || rule.contextWords.some(found);
+}
+
+/**
+ * Parse a comma/newline separated list of context words
+ */
+export function parseContextWords(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(/[,\n]/)
+        .map((word) => word.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+function containsWord(haystack: string, word: string): boolean {
+  const needle = word.trim().toLowerCase();
+  if (!needle) return false;
+
+  let index = 0;
+  while ((index = haystack.indexOf(needle, index)) !== -1) {
+    const end = index + needle.length;
+    if (!isWordChar(haystack[index - 1]) && !isWordChar(haystack[end])) {
+      return true;
+    }
+    index++;
+  }
+  return false;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
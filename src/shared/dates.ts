@@ -0,0 +1,320 @@
+import type { PseudonymVault } from "./types";
+import { allocateToken, getEntryKey } from "./vault";
+import { createRandom } from "./fakeData";
+
+type Range = { start: number; end: number };
+
+/**
+ * Whether numeric dates put the day or the month first
+ */
+export type DateOrder = "dmy" | "mdy";
+
+// A calendar date (month 1-12)
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Shifts are between two weeks and a year, in either direction
+const MIN_SHIFT_DAYS = 14;
+const MAX_SHIFT_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Full names, three-letter abbreviations and "Sept"
+const MONTH_NAME = `(?:${MONTHS.map(
+  (month) => `${month.slice(0, 3)}(?:${month.slice(3)})?`
+).join("|")}|sept)`;
+const ORDINAL = "(?:st|nd|rd|th)";
+
+// Dates in running text, with named groups for their parts:
+// "1990-03-14", "14/03/1990", "3/14/90", "14.03.1990", "14 March 1990",
+// "14th of Mar. 1990", "March 14, 1990"
+const DATE_SOURCES = [
+  String.raw`(?<year>\d{4})(?<sep>[-/.])(?<month>\d{1,2})\k<sep>(?<day>\d{1,2})`,
+  String.raw`(?<first>\d{1,2})(?<sep>[-/.])(?<second>\d{1,2})\k<sep>(?<year>\d{4})`,
+  // Two-digit years only with slashes ("1.2.10" is more likely a version)
+  String.raw`(?<first>\d{1,2})/(?<second>\d{1,2})/(?<year>\d{2})`,
+  String.raw`(?<day>\d{1,2})(?<ordinal>${ORDINAL})?(?:\s+of)?[\s-]+(?<monthName>${MONTH_NAME})\.?,?[\s-]+(?<year>\d{4})`,
+  String.raw`(?<monthName>${MONTH_NAME})\.?\s+(?<day>\d{1,2})(?<ordinal>${ORDINAL})?,?\s+(?<year>\d{4})`,
+];
+
+const DATE_PATTERNS = DATE_SOURCES.map(
+  (source) =>
+    new RegExp(String.raw`(?<![\w/.-])(?:${source})(?![\w/-]|\.\d)`, "gdi")
+);
+
+// The same patterns for a whole value
+const WHOLE_DATE_PATTERNS = DATE_SOURCES.map(
+  (source) => new RegExp(`^(?:${source})$`, "di")
+);
+
+/**
+ * Find calendar dates in text
+ *
+ * Numeric dates (ISO, day/month/year and month/day/year with -, / or .)
+ * and written dates ("14 March 1990", "Mar 14th, 1990") count when they
+ * name a real day.
+ */
+export function findDateMatches(text: string): Range[] {
+  const ranges: Range[] = [];
+  for (const pattern of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!readDate(match)) continue;
+      const start = match.index;
+      const end = start + match[0].length;
+      // An earlier pattern may have found a date here already
+      if (ranges.some((range) => range.start < end && start < range.end)) {
+        continue;
+      }
+      ranges.push({ start, end });
+    }
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Day/month order of the numeric dates in a text, so all of them are read
+ * the same way: that of the first date only one order fits ("25/12/2020"),
+ * otherwise the locale's
+ */
+export function getDateOrder(text: string): DateOrder {
+  let first: { index: number; order: DateOrder } | null = null;
+  for (const pattern of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (first && first.index < match.index) break;
+      const order = getUnambiguousOrder(match);
+      if (order && readDate(match)) first = { index: match.index, order };
+    }
+  }
+  return first?.order ?? getLocaleDateOrder();
+}
+
+/**
+ * Move a date by a number of days, keeping how it is written (order,
+ * separators, zero padding, month name style, two-digit years)
+ *
+ * Ambiguous numeric dates are read in the given order (see getDateOrder).
+ * Returns null when the value isn't a date.
+ */
+export function shiftDate(
+  value: string,
+  days: number,
+  order?: DateOrder
+): string | null {
+  const match = matchWholeDate(value);
+  const date = match && readDate(match, order);
+  if (!match || !date) return null;
+
+  const shifted = new Date(
+    Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS
+  );
+  const year = shifted.getUTCFullYear();
+  const month = shifted.getUTCMonth() + 1;
+  const day = shifted.getUTCDate();
+  const numericOrder = getNumericOrder(match, order);
+
+  // Replace each part in place, from the end so indices stay valid
+  const parts: [string, string][] = [
+    ["year", String(match.groups!.year.length === 2 ? year % 100 : year)],
+    ["month", String(month)],
+    ["day", String(day)],
+    ["first", String(numericOrder === "dmy" ? day : month)],
+    ["second", String(numericOrder === "dmy" ? month : day)],
+    ["monthName", formatMonthName(match.groups!.monthName, month)],
+    ["ordinal", formatOrdinal(match.groups!.ordinal, day)],
+  ];
+  // Keep zero padding of days and months ("03/04" -> "09/12")
+  const padded = ["month", "day", "first", "second"].some((group) =>
+    match.groups![group]?.startsWith("0")
+  );
+  const replacements = parts
+    .filter(([group]) => match.indices!.groups![group])
+    .map(([group, text]) => {
+      const [start, end] = match.indices!.groups![group]!;
+      const width =
+        group === "year" || padded ? match.groups![group].length : 0;
+      return {
+        start,
+        end,
+        text: /^\d/.test(text) ? text.padStart(width, "0") : text,
+      };
+    })
+    .sort((a, b) => b.start - a.start);
+
+  let result = value;
+  for (const { start, end, text } of replacements) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * Days all dates of a conversation are shifted by, derived from the
+ * vault's seed: between two weeks and a year either way, and never a whole
+ * number of weeks so weekdays don't line up with the real dates
+ */
+export function getDateShift(seed: string): number {
+  const random = createRandom(`${seed}\u0000date-shift`);
+  for (;;) {
+    const days =
+      MIN_SHIFT_DAYS +
+      Math.floor(random() * (MAX_SHIFT_DAYS - MIN_SHIFT_DAYS + 1));
+    if (days % 7 !== 0) return random() < 0.5 ? -days : days;
+  }
+}
+
+/**
+ * Get the shifted date for a value, reusing the vault's entry if the value
+ * was shifted before. Every date in a vault moves by the same offset, so
+ * intervals between them are kept (as long as ambiguous dates are read in
+ * one order, see getDateOrder). Values that aren't dates get an indexed
+ * token instead.
+ */
+export function allocateShiftedDate(
+  vault: PseudonymVault,
+  value: string,
+  base: string,
+  order?: DateOrder
+): string {
+  const key = getEntryKey(value, base, "shift");
+  const existing = vault.entries[key];
+  if (existing !== undefined) return existing;
+
+  const shifted = shiftDate(value, getDateShift(vault.seed ?? ""), order);
+  if (shifted === null) return allocateToken(vault, value, base);
+
+  vault.entries[key] = shifted;
+  return shifted;
+}
+
+function matchWholeDate(value: string): RegExpMatchArray | null {
+  for (const pattern of WHOLE_DATE_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Read the date of a pattern match, null if it isn't a real day
+ */
+function readDate(
+  match: RegExpMatchArray,
+  order?: DateOrder
+): CalendarDate | null {
+  const groups = match.groups!;
+  let year = Number(groups.year);
+  if (groups.year.length === 2) year += year < 50 ? 2000 : 1900;
+
+  let month: number;
+  let day: number;
+  if (groups.first !== undefined) {
+    const first = Number(groups.first);
+    const second = Number(groups.second);
+    [day, month] =
+      getNumericOrder(match, order) === "dmy"
+        ? [first, second]
+        : [second, first];
+  } else {
+    month = groups.monthName
+      ? getMonthIndex(groups.monthName) + 1
+      : Number(groups.month);
+    day = Number(groups.day);
+  }
+
+  if (year < 1900 || year > 2099 || month < 1 || month > 12 || day < 1) {
+    return null;
+  }
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth ? { year, month, day } : null;
+}
+
+/**
+ * Order of a day/month/year or month/day/year date: a part above 12 must be
+ * the day, otherwise the given order applies. Without one, slashes read as
+ * US month/day and dots or dashes as day.month.
+ */
+function getNumericOrder(
+  match: RegExpMatchArray,
+  order?: DateOrder
+): DateOrder {
+  const { first, sep } = match.groups!;
+  if (first === undefined) return "dmy";
+  const unambiguous = getUnambiguousOrder(match);
+  if (unambiguous) return unambiguous;
+  if (order) return order;
+  return sep === undefined || sep === "/" ? "mdy" : "dmy";
+}
+
+/**
+ * Order of a numeric date with a part above 12, null if both orders fit
+ */
+function getUnambiguousOrder(match: RegExpMatchArray): DateOrder | null {
+  const { first, second } = match.groups!;
+  if (first === undefined) return null;
+  if (Number(first) > 12) return "dmy";
+  if (Number(second) > 12) return "mdy";
+  return null;
+}
+
+/**
+ * Whether the locale writes the day or the month first (e.g. 12/31/2000
+ * in en-US)
+ */
+function getLocaleDateOrder(): DateOrder {
+  const types = new Intl.DateTimeFormat()
+    .formatToParts(new Date(2000, 11, 31))
+    .map((part) => part.type);
+  return types.indexOf("month") < types.indexOf("day") ? "mdy" : "dmy";
+}
+
+function getMonthIndex(name: string): number {
+  return MONTHS.findIndex((month) =>
+    month.startsWith(name.toLowerCase().slice(0, 3))
+  );
+}
+
+/**
+ * Name of a month written like the original name (full or abbreviated,
+ * upper, lower or title case)
+ */
+function formatMonthName(original: string | undefined, month: number): string {
+  if (!original) return "";
+  const lower = original.toLowerCase();
+  const full = MONTHS[month - 1];
+  let name = full;
+  if (lower === "sept") name = month === 9 ? "sept" : full.slice(0, 3);
+  else if (original.length === 3 && lower !== "may") name = full.slice(0, 3);
+
+  if (original === original.toUpperCase()) return name.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) {
+    return name[0].toUpperCase() + name.slice(1);
+  }
+  return name;
+}
+
+function formatOrdinal(original: string | undefined, day: number): string {
+  if (!original) return "";
+  const suffix =
+    day >= 11 && day <= 13
+      ? "th"
+      : (["th", "st", "nd", "rd"][day % 10] ?? "th");
+  return original === original.toUpperCase() ? suffix.toUpperCase() : suffix;
+}
@@ -0,0 +1,180 @@
+import type { SanitizationRule } from "./types";
+
+/**
+ * Multi-pattern matcher (Aho-Corasick automaton)
+ * Finds every occurrence of every term in a single pass over the text,
+ * regardless of how many terms there are.
+ */
+export class DictionaryMatcher {
+  // Per node: outgoing transitions, failure link, terms ending here
+  private readonly children: Map<string, number>[] = [new Map()];
+  private readonly fail: number[] = [0];
+  private readonly output: number[][] = [[]];
+  // Nearest node on the failure chain that ends a term (-1: none)
+  private readonly dictLink: number[] = [-1];
+  private readonly termLengths: number[] = [];
+  private readonly caseSensitive: boolean;
+
+  constructor(terms: string[], options: { caseSensitive?: boolean } = {}) {
+    this.caseSensitive = options.caseSensitive ?? false;
+
+    for (const term of terms) {
+      if (term) this.addTerm(term);
+    }
+    this.buildLinks();
+  }
+
+  get size(): number {
+    return this.termLengths.length;
+  }
+
+  /**
+   * Find all (possibly overlapping) term occurrences, end is exclusive
+   */
+  findAll(text: string): { start: number; end: number }[] {
+    const found: { start: number; end: number }[] = [];
+    let node = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = this.fold(text[i]);
+      while (node !== 0 && !this.children[node].has(char)) {
+        node = this.fail[node];
+      }
+      node = this.children[node].get(char) ?? 0;
+
+      for (let n = node; n !== -1; n = this.dictLink[n]) {
+        for (const term of this.output[n]) {
+          found.push({ start: i + 1 - this.termLengths[term], end: i + 1 });
+        }
+      }
+    }
+
+    return found;
+  }
+
+  private addTerm(term: string): void {
+    let node = 0;
+    // Walk by UTF-16 code unit so offsets line up with the text
+    for (let i = 0; i < term.length; i++) {
+      const char = this.fold(term[i]);
+      let next = this.children[node].get(char);
+      if (next === undefined) {
+        next = this.children.length;
+        this.children.push(new Map());
+        this.fail.push(0);
+        this.output.push([]);
+        this.dictLink.push(-1);
+        this.children[node].set(char, next);
+      }
+      node = next;
+    }
+    // Duplicate terms share a node, only count them once
+    if (this.output[node].length === 0) {
+      this.output[node].push(this.termLengths.length);
+      this.termLengths.push(term.length);
+    }
+  }
+
+  /**
+   * Breadth-first construction of failure and dictionary links
+   */
+  private buildLinks(): void {
+    const queue: number[] = [];
+    for (const child of this.children[0].values()) {
+      queue.push(child);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      for (const [char, child] of this.children[node]) {
+        let fallback = this.fail[node];
+        while (fallback !== 0 && !this.children[fallback].has(char)) {
+          fallback = this.fail[fallback];
+        }
+        const target = this.children[fallback].get(char);
+        this.fail[child] =
+          target !== undefined && target !== child ? target : 0;
+
+        const failNode = this.fail[child];
+        this.dictLink[child] =
+          this.output[failNode].length > 0 ? failNode : this.dictLink[failNode];
+
+        queue.push(child);
+      }
+    }
+  }
+
+  private fold(char: string): string {
+    if (this.caseSensitive) return char;
+    const lower = char.toLowerCase();
+    // Keep offsets stable: ignore foldings that change the length
+    return lower.length === 1 ? lower : char;
+  }
+}
+
+// Compiled matchers per rule, rebuilt only when the rule is saved again
+// Rules reach the worker as structured clones, so they're told apart by
+// updatedAt rather than identity (comparing the terms themselves would cost
+// as much as the terms on every lookup)
+const matcherCache = new Map<
+  string,
+  { updatedAt: number; caseSensitive: boolean; matcher: DictionaryMatcher }
+>();
+
+/**
+ * Get the compiled matcher for a dictionary rule
+ * Edited terms must come with a new updatedAt (drafts included).
+ */
+export function getDictionaryMatcher(
+  rule: SanitizationRule
+): DictionaryMatcher {
+  const caseSensitive = rule.caseSensitive ?? false;
+  const cached = matcherCache.get(rule.id);
+  if (
+    cached?.updatedAt === rule.updatedAt &&
+    cached.caseSensitive === caseSensitive
+  ) {
+    return cached.matcher;
+  }
+
+  const matcher = new DictionaryMatcher(rule.terms || [], { caseSensitive });
+  matcherCache.set(rule.id, {
+    updatedAt: rule.updatedAt,
+    caseSensitive,
+    matcher,
+  });
+  return matcher;
+}
+
+/**
+ * Find all term occurrences of a dictionary rule in text
+ */
+export function findDictionaryMatches(
+  text: string,
+  rule: SanitizationRule
+): { start: number; end: number }[] {
+  const matches = getDictionaryMatcher(rule).findAll(text);
+  if (!rule.wholeWord) return matches;
+
+  return matches.filter(
+    ({ start, end }) => !isWordChar(text[start - 1]) && !isWordChar(text[end])
+  );
+}
+
+/**
+ * Parse a dictionary text area (one term per line) into unique terms
+ */
+export function parseTerms(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(/\r?\n/)
+        .map((term) => term.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
@@ -0,0 +1,116 @@
+import type { SanitizationRule } from "./types";
+
+/**
+ * Default Shannon entropy (bits per character) a base64-like token needs
+ */
+export const DEFAULT_MIN_ENTROPY = 4;
+
+/**
+ * Default minimum token length for entropy detection
+ */
+export const DEFAULT_MIN_LENGTH = 20;
+
+// Hex tokens can carry at most 4 bits per character vs. 6 for base64,
+// so their threshold is scaled down accordingly
+const HEX_THRESHOLD_RATIO = 4 / 6;
+
+// Candidate tokens: anything between whitespace, quotes, brackets and
+// key/value, query or host separators (so "key=value" and URLs split up).
+// "/" and "+" are kept and "=" is kept as trailing padding, so base64
+// secrets stay whole (paths are split later, see splitPath)
+const TOKEN_PATTERN = /(?:[^\s"'`,;()[\]{}<>=&:.\\|]|=+(?![^\s"'`,;)\]}>&]))+/g;
+
+// A path segment that is a plain word ("usr", "assets", "commits")
+const PATH_WORD = /^[a-z][a-z_-]{2,}$/;
+
+// Identifier-like words inside a token, e.g. "Element" in getElementById
+const WORD_PATTERN = /[A-Z]?[a-z]{3,}/g;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Find tokens of an entropy rule that look like random secrets
+ *
+ * A token counts when it's at least minLength long and its entropy reaches
+ * the threshold for its charset (hex or other). Tokens also need both
+ * letters and digits, and non-hex ones must not mostly consist of words,
+ * which rules out camelCase/snake_case identifiers.
+ */
+export function findEntropyMatches(
+  text: string,
+  rule: Pick<SanitizationRule, "minEntropy" | "minLength">
+): { start: number; end: number }[] {
+  const minEntropy = rule.minEntropy ?? DEFAULT_MIN_ENTROPY;
+  const minLength = rule.minLength ?? DEFAULT_MIN_LENGTH;
+  const ranges: { start: number; end: number }[] = [];
+
+  const candidates = [...text.matchAll(TOKEN_PATTERN)].flatMap((match) =>
+    splitPath(match[0], match.index)
+  );
+  for (const candidate of candidates) {
+    // Separators at the edges (e.g. "--flag") aren't part of it
+    const token = candidate.text.replace(/^[_-]+|[_-]+$/g, "");
+    if (token.length < minLength) continue;
+
+    // Plain numbers and words are never secrets
+    if (!/[A-Za-z]/.test(token) || !/\d/.test(token)) continue;
+
+    const isHex = /^[0-9a-f]+$/i.test(token);
+    if (!isHex && isWordLike(token)) continue;
+
+    const threshold = isHex ? minEntropy * HEX_THRESHOLD_RATIO : minEntropy;
+    if (shannonEntropy(token) < threshold) continue;
+
+    const start = candidate.start + candidate.text.indexOf(token);
+    ranges.push({ start, end: start + token.length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Segments of a path or URL path, each checked on its own so a random ID in
+ * a path isn't masked along with the path. Tokens without a plain word
+ * between their slashes are taken as base64 and kept whole.
+ */
+function splitPath(
+  token: string,
+  start: number
+): { text: string; start: number }[] {
+  const segments = token.split("/");
+  if (!segments.some((segment) => PATH_WORD.test(segment))) {
+    return [{ text: token, start }];
+  }
+
+  let offset = start;
+  return segments.map((segment) => {
+    const part = { text: segment, start: offset };
+    offset += segment.length + 1;
+    return part;
+  });
+}
+
+function isWordLike(token: string): boolean {
+  let wordChars = 0;
+  for (const word of token.matchAll(WORD_PATTERN)) {
+    wordChars += word[0].length;
+  }
+  return wordChars * 2 >= token.length;
+}
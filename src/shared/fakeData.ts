@@ -0,0 +1,215 @@
+import type { PseudonymVault, SanitizationRule } from "./types";
+import { isValidIpv4, isValidLuhn } from "./validators";
+import { allocateToken, getEntryKey } from "./vault";
+
+const FIRST_NAMES = [
+  "alex",
+  "jordan",
+  "taylor",
+  "morgan",
+  "casey",
+  "riley",
+  "jamie",
+  "avery",
+  "quinn",
+  "harper",
+  "rowan",
+  "sam",
+  "drew",
+  "kai",
+  "robin",
+  "parker",
+];
+
+const LAST_NAMES = [
+  "smith",
+  "lee",
+  "garcia",
+  "chen",
+  "patel",
+  "brown",
+  "novak",
+  "silva",
+  "kim",
+  "walker",
+  "rossi",
+  "muller",
+  "ito",
+  "khan",
+  "dubois",
+  "young",
+];
+
+// Reserved for documentation/testing, so fakes never hit real people or hosts
+const FAKE_EMAIL_DOMAINS = ["example.com", "example.org", "example.net"];
+const FAKE_IP_PREFIXES = ["192.0.2", "198.51.100", "203.0.113"];
+
+const LOWER = "abcdefghijklmnopqrstuvwxyz";
+const UPPER = LOWER.toUpperCase();
+const DIGITS = "0123456789";
+
+/**
+ * Get the fake value for an original value, reusing the vault's fake if the
+ * value was substituted before. Generated fakes are recorded in the vault.
+ * When no unique fake can be generated, the value gets an indexed token.
+ */
+export function allocateFake(
+  vault: PseudonymVault,
+  value: string,
+  rule: Pick<SanitizationRule, "replacement" | "validator">
+): string {
+  const key = getEntryKey(value, rule.replacement, "fake");
+  const existing = vault.entries[key];
+  if (existing !== undefined) return existing;
+
+  // Fakes must stay unique per vault so they can be mapped back
+  const taken = new Set(Object.values(vault.entries));
+  let fake: string | null = null;
+  for (let attempt = 0; attempt < 20 && fake === null; attempt++) {
+    const random = createRandom(
+      `${vault.seed ?? ""}\u0000${value}\u0000${attempt}`
+    );
+    const candidate = generateFake(value, rule, random);
+    if (candidate !== value && !taken.has(candidate)) fake = candidate;
+  }
+
+  vault.entries[key] = fake ?? allocateToken(vault, value, rule.replacement);
+  return vault.entries[key];
+}
+
+/**
+ * Generate a realistic fake of the same type and shape as the value
+ */
+function generateFake(
+  value: string,
+  rule: Pick<SanitizationRule, "replacement" | "validator">,
+  random: () => number
+): string {
+  const digitCount = value.replace(/\D/g, "").length;
+
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+    return fakeEmail(random);
+  }
+  if (rule.validator === "ipv4" || isValidIpv4(value)) {
+    return `${pick(FAKE_IP_PREFIXES, random)}.${1 + Math.floor(random() * 254)}`;
+  }
+  if (
+    rule.validator === "luhn" ||
+    (digitCount >= 13 && digitCount <= 19 && isValidLuhn(value))
+  ) {
+    return fakeCardNumber(value, random);
+  }
+  if (rule.validator === "ssn") {
+    // Area numbers 900-999 are never issued
+    return replaceDigits(value, ["9", ...randomDigits(8, random)]);
+  }
+  if (/PHONE/i.test(rule.replacement) || isUsPhoneShape(value, digitCount)) {
+    return fakePhone(value, digitCount, random);
+  }
+
+  return fakeSameShape(value, random);
+}
+
+function fakeEmail(random: () => number): string {
+  const first = pick(FIRST_NAMES, random);
+  const last = pick(LAST_NAMES, random);
+  const number = Math.floor(random() * 100);
+  return `${first}.${last}${number}@${pick(FAKE_EMAIL_DOMAINS, random)}`;
+}
+
+/**
+ * Luhn-valid card number in the same layout, using the 4000 test range
+ */
+function fakeCardNumber(value: string, random: () => number): string {
+  const length = value.replace(/\D/g, "").length;
+  const body = ["4", "0", "0", "0", ...randomDigits(length - 5, random)];
+  return replaceDigits(value, [...body, luhnCheckDigit(body.join(""))]);
+}
+
+/**
+ * Phone number in the same layout using the fictional 555-01XX range for
+ * 10-digit (NANP) numbers, random digits otherwise
+ */
+function fakePhone(
+  value: string,
+  digitCount: number,
+  random: () => number
+): string {
+  const digits = randomDigits(digitCount, random);
+  if (digitCount >= 10) {
+    // Keep any country code, fix the last 10 digits to AAA-555-01XX
+    const offset = digitCount - 10;
+    digits[offset] = String(2 + Math.floor(random() * 8));
+    digits.splice(offset + 3, 5, "5", "5", "5", "0", "1");
+  }
+  return replaceDigits(value, digits);
+}
+
+function isUsPhoneShape(value: string, digitCount: number): boolean {
+  return (
+    (digitCount === 10 || digitCount === 11) && /^\+?[\d\s().-]+$/.test(value)
+  );
+}
+
+/**
+ * Same length and character classes: letters stay letters (same case),
+ * digits stay digits, everything else is kept
+ */
+function fakeSameShape(value: string, random: () => number): string {
+  return [...value]
+    .map((char) => {
+      if (char >= "0" && char <= "9") return pick([...DIGITS], random);
+      if (char >= "a" && char <= "z") return pick([...LOWER], random);
+      if (char >= "A" && char <= "Z") return pick([...UPPER], random);
+      return char;
+    })
+    .join("");
+}
+
+function replaceDigits(value: string, digits: string[]): string {
+  let index = 0;
+  return value.replace(/\d/g, () => digits[index++] ?? "0");
+}
+
+function randomDigits(count: number, random: () => number): string[] {
+  return Array.from({ length: Math.max(0, count) }, () =>
+    String(Math.floor(random() * 10))
+  );
+}
+
+function luhnCheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    let digit = Number(body[body.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string hash (FNV-1a)
+ */
+export function createRandom(seed: string): () => number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
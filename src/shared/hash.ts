@@ -0,0 +1,144 @@
+/**
+ * Synchronous hashes for checksum validators
+ * (crypto.subtle is async, validators run inside the matching loop)
+ */
+
+// SHA-256 constants: fractional parts of the square roots of the first 8
+// primes (initial hash) and cube roots of the first 64 primes (round keys)
+const SHA256_INIT = new Uint32Array(8);
+const SHA256_K = new Uint32Array(64);
+{
+  const fraction = (x: number) => ((x - Math.floor(x)) * 2 ** 32) >>> 0;
+  let count = 0;
+  for (let candidate = 2; count < 64; candidate++) {
+    let isPrime = true;
+    for (let d = 2; d * d <= candidate; d++) {
+      if (candidate % d === 0) isPrime = false;
+    }
+    if (!isPrime) continue;
+    if (count < 8) SHA256_INIT[count] = fraction(Math.sqrt(candidate));
+    SHA256_K[count++] = fraction(Math.cbrt(candidate));
+  }
+}
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * SHA-256 digest of the bytes
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(((data.length + 72) >> 6) << 6);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 4, data.length * 8);
+
+  const hash = SHA256_INIT.slice();
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] += value));
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((value, i) => digestView.setUint32(i * 4, value));
+  return digest;
+}
+
+const LANE_MASK = (1n << 64n) - 1n;
+
+const rotl64 = (x: bigint, n: number) =>
+  n === 0 ? x : ((x << BigInt(n)) | (x >> BigInt(64 - n))) & LANE_MASK;
+
+/**
+ * Keccak-256 digest of the bytes (the original Keccak padding used by
+ * Ethereum, not SHA3-256)
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array((Math.floor(data.length / rate) + 1) * rate);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  // lanes[x + 5 * y], little-endian 64-bit words
+  const lanes: bigint[] = new Array(25).fill(0n);
+  const view = new DataView(padded.buffer);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      lanes[i] ^= view.getBigUint64(offset + i * 8, true);
+    }
+    keccakF1600(lanes);
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 4; i++) digestView.setBigUint64(i * 8, lanes[i], true);
+  return digest;
+}
+
+/**
+ * Keccak-f[1600] permutation (after the Keccak team's compact reference)
+ */
+function keccakF1600(lanes: bigint[]): void {
+  let r = 1;
+  for (let round = 0; round < 24; round++) {
+    // θ
+    const c = [0, 1, 2, 3, 4].map(
+      (x) =>
+        lanes[x] ^ lanes[x + 5] ^ lanes[x + 10] ^ lanes[x + 15] ^ lanes[x + 20]
+    );
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 5; y++) lanes[x + 5 * y] ^= d;
+    }
+
+    // ρ and π
+    let x = 1;
+    let y = 0;
+    let current = lanes[x + 5 * y];
+    for (let t = 0; t < 24; t++) {
+      [x, y] = [y, (2 * x + 3 * y) % 5];
+      const next = lanes[x + 5 * y];
+      lanes[x + 5 * y] = rotl64(current, (((t + 1) * (t + 2)) / 2) % 64);
+      current = next;
+    }
+
+    // χ
+    for (let row = 0; row < 5; row++) {
+      const t = [0, 1, 2, 3, 4].map((col) => lanes[col + 5 * row]);
+      for (let col = 0; col < 5; col++) {
+        lanes[col + 5 * row] =
+          t[col] ^ (~t[(col + 1) % 5] & LANE_MASK & t[(col + 2) % 5]);
+      }
+    }
+
+    // ι
+    for (let j = 0; j < 7; j++) {
+      r = ((r << 1) ^ ((r >> 7) * 0x71)) % 256;
+      if (r & 2) lanes[0] ^= 1n << BigInt((1 << j) - 1);
+    }
+  }
+}
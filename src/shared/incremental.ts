@@ -0,0 +1,223 @@
+import type { AllowlistEntry, MatchSpan, SanitizationRule } from "./types";
+import {
+  collectSpans,
+  collectSpansInRange,
+  resolveSpansByAction,
+} from "./sanitizer";
+import { DEFAULT_CONTEXT_WINDOW, hasContextCondition } from "./context";
+
+// Characters around an edit that are re-scanned along with it (the region
+// is further widened to whole lines or blocks and to matches it cuts through)
+const RESCAN_MARGIN = 512;
+
+// Edits touching more than this share of the text trigger a full scan
+const FULL_SCAN_RATIO = 0.5;
+
+/**
+ * Finds what sanitize() would mask while the text is being edited,
+ * re-scanning only the region around each edit
+ *
+ * Candidate spans of the previous text are kept: spans before the edit stay,
+ * spans after it are shifted. Structured data and addresses are re-scanned
+ * by block, since a table header applies to the rows below it and an
+ * address can span several lines. Rules that depend on text
+ * far from a match (code/prose scope, wide context windows) are re-run on
+ * the whole text. The matches are meant for live feedback such as the
+ * badge; masking itself always runs a full sanitize().
+ */
+export class IncrementalDetector {
+  // Text the spans belong to, null before the first scan
+  private text: string | null = null;
+  private signature: string | null = null;
+  // Candidates of rules re-scanned by line and by block, sorted by start
+  private lineSpans: MatchSpan[] = [];
+  private blockSpans: MatchSpan[] = [];
+
+  /**
+   * Matches sanitize() would mask in the text
+   */
+  detect(
+    text: string,
+    rules: SanitizationRule[],
+    allowlist: AllowlistEntry[] = [],
+    onRuleStart?: (rule: SanitizationRule) => void
+  ): MatchSpan[] {
+    const enabledRules = rules.filter((r) => r.enabled);
+    const signature = getSignature(enabledRules, allowlist);
+    if (signature !== this.signature) {
+      this.signature = signature;
+      this.text = null;
+    }
+
+    const previous = this.text;
+    const scan = (
+      spans: MatchSpan[],
+      alignment: Alignment,
+      ruleSet: SanitizationRule[]
+    ) =>
+      previous === null
+        ? collectSpans(text, ruleSet, allowlist, onRuleStart)
+        : rescan(previous, text, spans, alignment, (range) =>
+            collectSpansInRange(text, ruleSet, range, allowlist, onRuleStart)
+          );
+
+    this.lineSpans = scan(
+      this.lineSpans,
+      "line",
+      enabledRules.filter((r) => getAlignment(r) === "line")
+    );
+    this.blockSpans = scan(
+      this.blockSpans,
+      "block",
+      enabledRules.filter((r) => getAlignment(r) === "block")
+    );
+    this.text = text;
+
+    // Spans carry their position in the full rule list (breaks ties)
+    const ruleIndex = new Map(enabledRules.map((rule, i) => [rule.id, i]));
+    const candidates = [
+      ...this.lineSpans,
+      ...this.blockSpans,
+      ...collectSpans(
+        text,
+        enabledRules.filter((r) => !getAlignment(r)),
+        allowlist,
+        onRuleStart
+      ),
+    ].map((span) => ({ ...span, ruleIndex: ruleIndex.get(span.rule.id)! }));
+
+    return resolveSpansByAction(
+      candidates.filter((span) => !span.lowConfidence)
+    );
+  }
+}
+
+type Alignment = "line" | "block";
+
+/**
+ * Update the spans of the previous text for the current one, re-scanning
+ * the changed region widened to whole lines or blocks
+ */
+function rescan(
+  previous: string,
+  text: string,
+  spans: MatchSpan[],
+  alignment: Alignment,
+  scanRange: (range: { start: number; end: number }) => MatchSpan[]
+): MatchSpan[] {
+  if (text === previous) return spans;
+
+  // Unchanged prefix and suffix
+  const maxCommon = Math.min(text.length, previous.length);
+  let prefix = 0;
+  let suffix = 0;
+  while (prefix < maxCommon && text[prefix] === previous[prefix]) prefix++;
+  while (
+    suffix < maxCommon - prefix &&
+    text[text.length - 1 - suffix] === previous[previous.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (text.length - prefix - suffix > text.length * FULL_SCAN_RATIO) {
+    return scanRange({ start: 0, end: text.length });
+  }
+
+  // Region to re-scan in the new text. It starts in the unchanged prefix
+  // and ends in the unchanged suffix, which sits delta further in the new
+  // text, so old spans compare against end - delta.
+  const [alignStart, alignEnd] =
+    alignment === "line" ? [lineStart, lineEnd] : [blockStart, blockEnd];
+  const delta = text.length - previous.length;
+  let start = alignStart(text, prefix - RESCAN_MARGIN);
+  let end = alignEnd(text, text.length - suffix + RESCAN_MARGIN);
+  let widened: boolean;
+  do {
+    widened = false;
+    for (const span of spans) {
+      if (span.start < start && span.end > start) {
+        start = alignStart(text, span.start);
+        widened = true;
+      }
+      if (span.start < end - delta && span.end > end - delta) {
+        end = alignEnd(text, span.end + delta);
+        widened = true;
+      }
+    }
+  } while (widened);
+
+  // Keep spans outside the region, shifting those after it
+  const before = spans.filter((span) => span.end <= start);
+  const after = spans
+    .filter((span) => span.start >= end - delta)
+    .map((span) => ({
+      ...span,
+      start: span.start + delta,
+      end: span.end + delta,
+    }));
+
+  return [...before, ...scanRange({ start, end }), ...after].sort(
+    (a, b) => a.start - b.start
+  );
+}
+
+/**
+ * How far a rule's matches depend on the text around them
+ * - line: only nearby lines (re-scanned by line)
+ * - block: the surrounding block, up to blank lines (tables, key/value
+ *   data, multi-line addresses)
+ * - undefined: possibly the whole text (code/prose scope, wide context)
+ */
+function getAlignment(rule: SanitizationRule): Alignment | undefined {
+  if ((rule.scope ?? "all") !== "all") return undefined;
+  if (
+    hasContextCondition(rule) &&
+    (rule.contextWindow ?? DEFAULT_CONTEXT_WINDOW) > RESCAN_MARGIN
+  ) {
+    return undefined;
+  }
+  return rule.type === "structured" || rule.type === "address"
+    ? "block"
+    : "line";
+}
+
+function getSignature(
+  rules: SanitizationRule[],
+  allowlist: AllowlistEntry[]
+): string {
+  return [
+    ...rules.map((rule) => `${rule.id}:${rule.updatedAt}`),
+    ...allowlist.map((entry) => entry.id),
+  ].join("|");
+}
+
+function lineStart(text: string, index: number): number {
+  return index <= 0 ? 0 : text.lastIndexOf("\n", index - 1) + 1;
+}
+
+function lineEnd(text: string, index: number): number {
+  if (index >= text.length) return text.length;
+  const newline = text.indexOf("\n", index);
+  return newline === -1 ? text.length : newline;
+}
+
+// Blocks are runs of lines separated by blank lines
+function blockStart(text: string, index: number): number {
+  let start = lineStart(text, index);
+  while (start > 0) {
+    const previous = lineStart(text, start - 1);
+    if (!text.slice(previous, start - 1).trim()) return start;
+    start = previous;
+  }
+  return 0;
+}
+
+function blockEnd(text: string, index: number): number {
+  let end = lineEnd(text, index);
+  while (end < text.length) {
+    const next = lineEnd(text, end + 1);
+    if (!text.slice(end + 1, next).trim()) return end;
+    end = next;
+  }
+  return text.length;
+}
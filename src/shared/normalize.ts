@@ -0,0 +1,114 @@
+/**
+ * Text normalized for matching, with the original range each of its
+ * characters came from (end is exclusive)
+ */
+export interface NormalizedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+// Zero-width and other invisible characters that can split an identifier
+const INVISIBLE = /^[\u00AD\u180E\u200B-\u200F\u2060-\u2064\uFEFF]$/;
+
+// Hyphens, dashes and minus signs NFKC leaves alone
+const DASH = /^[\u2010-\u2015\u2212\uFE58]$/;
+
+// Single digits (or dashes) separated by single spaces, e.g. "4 1 1 1"
+const SPACED_DIGITS = /(?<![\p{L}\p{N}])\d(?: [\d-](?![\p{L}\p{N}]))+/gu;
+
+// Shorter spaced runs are left alone ("1 2 3" in prose isn't an identifier)
+const MIN_SPACED_DIGITS = 6;
+
+/**
+ * Normalize text so obfuscated identifiers match the rules
+ * - NFKC (fullwidth digits and letters become ASCII)
+ * - invisible characters (zero-width spaces, soft hyphens) are dropped
+ * - dashes become "-", space separators become " "
+ * - spaced-out digits ("4 1 1 1 1 1") are joined
+ *
+ * Returns null when the text is already normal.
+ */
+export function normalizeForMatching(text: string): NormalizedText | null {
+  if (!/[\u0080-\uFFFF]/.test(text) && !hasSpacedDigits(text)) return null;
+
+  const parts: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const nonAscii = /[\u0080-\uFFFF]/g;
+  let i = 0;
+  while (i < text.length) {
+    // ASCII is already normal
+    nonAscii.lastIndex = i;
+    const next = nonAscii.exec(text)?.index ?? text.length;
+    parts.push(text.slice(i, next));
+    for (; i < next; i++) {
+      starts.push(i);
+      ends.push(i + 1);
+    }
+    if (i === text.length) break;
+
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    const replacement = normalizeChar(char);
+    for (let k = 0; k < replacement.length; k++) {
+      starts.push(i);
+      ends.push(i + char.length);
+    }
+    parts.push(replacement);
+    i += char.length;
+  }
+
+  const result = joinSpacedDigits({ text: parts.join(""), starts, ends });
+  return result.text === text ? null : result;
+}
+
+/**
+ * Map a range of the normalized text back to the original text
+ */
+export function toOriginalRange(
+  normalized: NormalizedText,
+  range: { start: number; end: number }
+): { start: number; end: number } {
+  return {
+    start: normalized.starts[range.start],
+    end: normalized.ends[range.end - 1],
+  };
+}
+
+function normalizeChar(char: string): string {
+  if (INVISIBLE.test(char)) return "";
+  const folded = char.normalize("NFKC");
+  if (DASH.test(folded)) return "-";
+  if (/^\p{Zs}$/u.test(folded)) return " ";
+  return folded;
+}
+
+function hasSpacedDigits(text: string): boolean {
+  for (const match of text.matchAll(SPACED_DIGITS)) {
+    if (countDigits(match[0]) >= MIN_SPACED_DIGITS) return true;
+  }
+  return false;
+}
+
+/**
+ * Drop the spaces of spaced-out digit runs
+ */
+function joinSpacedDigits(normalized: NormalizedText): NormalizedText {
+  const dropped = new Set<number>();
+  for (const match of normalized.text.matchAll(SPACED_DIGITS)) {
+    if (countDigits(match[0]) < MIN_SPACED_DIGITS) continue;
+    for (let i = 1; i < match[0].length; i += 2) dropped.add(match.index + i);
+  }
+  if (dropped.size === 0) return normalized;
+
+  const kept = (_: unknown, i: number) => !dropped.has(i);
+  return {
+    text: normalized.text.split("").filter(kept).join(""),
+    starts: normalized.starts.filter(kept),
+    ends: normalized.ends.filter(kept),
+  };
+}
+
+function countDigits(run: string): number {
+  return run.replace(/\D/g, "").length;
+}
@@ -0,0 +1,161 @@
+import type { ComplianceProfileId, SanitizationRule } from "./types";
+
+/**
+ * A class of identifiers a compliance profile requires to be removed
+ */
+export interface ComplianceIdentifier {
+  id: string;
+  name: string;
+  /** Rules that find this identifier (none: it can't be detected in text) */
+  ruleIds: string[];
+  /** Why the rules can't find (all of) this identifier */
+  note?: string;
+}
+
+/**
+ * A one-click set of rules for a de-identification standard
+ */
+export interface ComplianceProfile {
+  name: string;
+  description: string;
+  identifiers: ComplianceIdentifier[];
+  /** Changes to the profile's rules while it is on */
+  overrides?: Record<string, Partial<SanitizationRule>>;
+}
+
+export const COMPLIANCE_PROFILES: Record<
+  ComplianceProfileId,
+  ComplianceProfile
+> = {
+  hipaa: {
+    name: "HIPAA Safe Harbor",
+    description:
+      "Turns on the rules for the 18 identifiers HIPAA Safe Harbor requires to be removed",
+    identifiers: [
+      {
+        id: "names",
+        name: "Names",
+        ruleIds: [],
+        note: "Names can't be recognized reliably; add patient and staff names to a dictionary rule",
+      },
+      {
+        id: "geographic",
+        name: "Geographic subdivisions",
+        ruleIds: ["sys-address", "sys-us-zip"],
+        note: 'ZIP codes are only found in an address or next to a word like "ZIP"; remove bare ZIP codes by hand',
+      },
+      {
+        id: "dates",
+        name: "Dates (except year)",
+        ruleIds: ["sys-date-of-birth", "sys-dates"],
+      },
+      { id: "phone", name: "Phone and fax numbers", ruleIds: ["sys-phone"] },
+      { id: "email", name: "Email addresses", ruleIds: ["sys-email"] },
+      { id: "ssn", name: "Social Security numbers", ruleIds: ["sys-ssn"] },
+      { id: "mrn", name: "Medical record numbers", ruleIds: ["sys-mrn"] },
+      {
+        id: "health-plan",
+        name: "Health plan beneficiary numbers",
+        ruleIds: ["sys-health-plan-id", "sys-medicare-mbi"],
+      },
+      {
+        id: "account",
+        name: "Account numbers",
+        ruleIds: ["sys-bank-account", "sys-credit-card", "sys-iban"],
+      },
+      {
+        id: "license",
+        name: "Certificate and license numbers",
+        ruleIds: ["sys-license-number"],
+      },
+      {
+        id: "vehicle",
+        name: "Vehicle identifiers",
+        ruleIds: ["sys-vin", "sys-license-plate"],
+      },
+      {
+        id: "device",
+        name: "Device identifiers and serial numbers",
+        ruleIds: ["sys-device-id"],
+      },
+      { id: "url", name: "Web URLs", ruleIds: ["sys-web-url"] },
+      { id: "ip", name: "IP addresses", ruleIds: ["sys-ip-address"] },
+      {
+        id: "biometric",
+        name: "Biometric identifiers",
+        ruleIds: [],
+        note: "Fingerprints and voice prints aren't text; references to them must be removed by hand",
+      },
+      {
+        id: "photos",
+        name: "Full-face photographs",
+        ruleIds: [],
+        note: "Only text is checked; don't attach photos",
+      },
+      {
+        id: "other",
+        name: "Other unique identifiers",
+        ruleIds: ["sys-structured-keys"],
+        note: "Only values of sensitive keys in structured data are found; add rules for your own codes",
+      },
+    ],
+    // Safe Harbor doesn't allow shifting dates, they are removed instead
+    overrides: {
+      "sys-date-of-birth": { strategy: "indexed" },
+      "sys-dates": { strategy: "indexed" },
+    },
+  },
+};
+
+/**
+ * Rules with a compliance profile applied: the profile's rules are turned
+ * on (unless they were disabled for being too slow) and its overrides set
+ * Stored rules are left alone, so turning the profile off restores them.
+ */
+export function applyComplianceProfile(
+  rules: SanitizationRule[],
+  profileId: ComplianceProfileId | null | undefined
+): SanitizationRule[] {
+  if (!profileId) return rules;
+
+  const profile = COMPLIANCE_PROFILES[profileId];
+  const ruleIds = new Set(profile.identifiers.flatMap((i) => i.ruleIds));
+  return rules.map((rule) =>
+    ruleIds.has(rule.id) && !rule.timedOutAt
+      ? { ...rule, enabled: true, ...profile.overrides?.[rule.id] }
+      : rule
+  );
+}
+
+/**
+ * Identifiers of a profile the rules can't cover: those without an enabled
+ * rule and those the rules only find in part (see the note)
+ */
+export function getUncoveredIdentifiers(
+  rules: SanitizationRule[],
+  profileId: ComplianceProfileId
+): ComplianceIdentifier[] {
+  const enabledIds = new Set(rules.filter((r) => r.enabled).map((r) => r.id));
+  return COMPLIANCE_PROFILES[profileId].identifiers.filter(
+    (identifier) =>
+      !!identifier.note || !identifier.ruleIds.some((id) => enabledIds.has(id))
+  );
+}
+
+/**
+ * Identifiers of a profile found in a text, from per-rule match counts
+ */
+export function getFoundIdentifiers(
+  matchCounts: Record<string, number>,
+  profileId: ComplianceProfileId
+): { identifier: ComplianceIdentifier; matchCount: number }[] {
+  return COMPLIANCE_PROFILES[profileId].identifiers
+    .map((identifier) => ({
+      identifier,
+      matchCount: identifier.ruleIds.reduce(
+        (sum, id) => sum + (matchCounts[id] ?? 0),
+        0
+      ),
+    }))
+    .filter(({ matchCount }) => matchCount > 0);
+}
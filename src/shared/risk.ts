@@ -0,0 +1,91 @@
+import type {
+  RiskFactor,
+  RiskLevel,
+  RiskScore,
+  RuleSeverity,
+  SanitizationRule,
+} from "./types";
+
+export const DEFAULT_SEVERITY: RuleSeverity = "medium";
+
+// Points for the first match of a rule: one private key outweighs a page
+// of email addresses
+const SEVERITY_POINTS: Record<RuleSeverity, number> = {
+  low: 1,
+  medium: 5,
+  high: 20,
+  critical: 60,
+};
+
+// Lowest score of each level, highest level first (a single match of a
+// rule puts the prompt at the rule's severity)
+const LEVEL_THRESHOLDS: [Exclude<RiskLevel, "none">, number][] = [
+  ["critical", SEVERITY_POINTS.critical],
+  ["high", SEVERITY_POINTS.high],
+  ["medium", SEVERITY_POINTS.medium],
+  ["low", 0],
+];
+
+const MAX_SCORE = 100;
+
+export const NO_RISK: RiskScore = {
+  score: 0,
+  level: "none",
+  matchCount: 0,
+  breakdown: [],
+};
+
+/**
+ * Risk score of a prompt from its matches per rule
+ *
+ * Each rule adds its severity's points, growing with the log of its match
+ * count so repeated matches of one rule count less than matches of
+ * different rules. The total is capped at 100.
+ */
+export function computeRisk(
+  matches: { rule: SanitizationRule; matchCount: number }[]
+): RiskScore {
+  const breakdown: RiskFactor[] = matches
+    .filter(({ matchCount }) => matchCount > 0)
+    .map(({ rule, matchCount }) => {
+      const severity = rule.severity ?? DEFAULT_SEVERITY;
+      const points = SEVERITY_POINTS[severity] * (1 + Math.log2(matchCount));
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity,
+        matchCount,
+        points: Math.round(points),
+      };
+    })
+    .sort((a, b) => b.points - a.points);
+
+  if (breakdown.length === 0) return NO_RISK;
+
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  const score = Math.min(MAX_SCORE, total);
+  return {
+    score,
+    level: LEVEL_THRESHOLDS.find(([, min]) => score >= min)![0],
+    matchCount: breakdown.reduce((sum, factor) => sum + factor.matchCount, 0),
+    breakdown,
+  };
+}
+
+/**
+ * Risk score of resolved spans (one match per span)
+ */
+export function computeSpanRisk(
+  spans: { rule: SanitizationRule }[]
+): RiskScore {
+  const byRule = new Map<
+    string,
+    { rule: SanitizationRule; matchCount: number }
+  >();
+  for (const { rule } of spans) {
+    const entry = byRule.get(rule.id);
+    if (entry) entry.matchCount++;
+    else byRule.set(rule.id, { rule, matchCount: 1 });
+  }
+  return computeRisk([...byRule.values()]);
+}
@@ -1,64 +1,98 @@
 import type {
+  AllowlistEntry,
   SanitizationRule,
   SanitizationResult,
   AppliedRule,
-  ReplacementMap,
+  MatchSpan,
+  RuleAction,
+  PseudonymVault,
+  SanitizeOptions,
+  ValidatorId,
 } from "./types";
 import { devLog } from "./utils";
+import { cloneVault, createVault } from "./vault";
+import { maskValue } from "./strategies";
+import { runValidator } from "./validators";
+import { findDictionaryMatches } from "./dictionary";
+import { hasContextCondition, matchesContext } from "./context";
+import { isAllowed } from "./allowlist";
+import { findEntropyMatches } from "./entropy";
+import { findStructuredMatches } from "./structured";
+import { findAddressMatches } from "./address";
+import { findDateMatches, getDateOrder, type DateOrder } from "./dates";
+import { findCodeRanges, isInScope, type CodeRange } from "./codeBlocks";
+import { normalizeForMatching, toOriginalRange } from "./normalize";
+import { computeSpanRisk } from "./risk";
+
+// Rule actions from the one winning overlaps to the one losing them
+const ACTION_PRECEDENCE: RuleAction[] = ["block", "warn", "mask"];
+
+// Compiled regexes per rule ID (see getRuleRegex)
+const regexCache = new Map<string, { key: string; regex: RegExp }>();
+
 /**
  * Apply all enabled sanitization rules to the input text
+ *
+ * Every rule is matched against the original text, overlapping candidates
+ * are resolved (see resolveSpans) and the output is built in a single pass,
+ * so a rule never matches inside another rule's replacement token.
+ * Rules also see a normalized copy of the text (see normalizeForMatching),
+ * so obfuscated identifiers are masked on their original characters.
+ *
+ * When a vault is given, values it already knows keep their token and new
+ * values continue its numbering. The given vault itself is not modified.
+ *
+ * Matches whose rule context condition doesn't hold are not masked (unless
+ * the rule is listed in maskLowConfidence) but reported as lowConfidence.
+ * Allowlisted values (global or rule exceptions) are never masked.
+ * Matches of rules that warn or block instead of masking win every overlap
+ * with masked ones (see resolveSpansByAction), are left as-is and reported
+ * as flagged. The result carries a
+ * risk score from the severity of the rules that matched.
  */
 export function sanitize(
   text: string,
-  rules: SanitizationRule[]
+  rules: SanitizationRule[],
+  options: SanitizeOptions = {}
 ): SanitizationResult {
+  // Only sizes are logged: prompts can be hundreds of KB
   devLog(
-    `[SANITIZE] Starting sanitization. Original text: ${JSON.stringify(
-      text
-    )}. Total rules: ${rules.length}.`
+    `[SANITIZE] Starting sanitization. Original text: ${text.length} chars. Total rules: ${rules.length}.`
   );
 
   const enabledRules = rules.filter((r) => r.enabled);
   devLog(`[SANITIZE] Enabled rules: ${enabledRules.length}.`);
 
-  let sanitizedText = text;
-  const appliedRules: AppliedRule[] = [];
-
-  for (const rule of enabledRules) {
-    devLog(
-      `[SANITIZE] Applying rule: ${rule.name}. Rule pattern: ${rule.pattern}. Rule isRegex: ${rule.isRegex}. Rule flags: ${rule.flags}. Rule replacement: ${rule.replacement}.`
-    );
-
-    const { newText, matches, replacementMap } = applyRule(sanitizedText, rule);
+  const candidates = collectSpans(
+    text,
+    enabledRules,
+    options.allowlist,
+    options.onRuleStart
+  );
+  const maskAnyway = new Set(options.maskLowConfidence);
+  const isTrusted = (span: MatchSpan) =>
+    !span.lowConfidence || maskAnyway.has(span.rule.id);
+  const spans = resolveSpansByAction(candidates.filter(isTrusted));
+  // Only surface doubtful matches that aren't masked by another rule anyway
+  const lowConfidence = resolveSpans(
+    candidates.filter((span) => !isTrusted(span) && !overlapsAny(spans, span))
+  );
+  devLog(
+    `[SANITIZE] Candidate spans: ${candidates.length}. Resolved spans: ${spans.length}.`
+  );
 
-    devLog(
-      `[SANITIZE] Matches found: ${matches.length}. Matches: ${JSON.stringify(
-        matches
-      )}. Replacement map: ${JSON.stringify(replacementMap)}.`
-    );
+  const flagged = spans.filter((span) => getRuleAction(span.rule) !== "mask");
 
-    if (matches.length > 0) {
-      devLog(
-        `[SANITIZE] Text BEFORE replacement: ${JSON.stringify(
-          sanitizedText
-        )}. Text AFTER replacement: ${JSON.stringify(newText)}.`
-      );
-      appliedRules.push({
-        rule,
-        matchCount: matches.length,
-        matches,
-        replacementMap,
-      });
-      sanitizedText = newText;
-    } else {
-      devLog("[SANITIZE] No matches for this rule");
-    }
-  }
+  // Working copy shared by all rules so tokens with the same base never collide
+  const vault = options.vault ? cloneVault(options.vault) : createVault();
+  const { sanitizedText, appliedRules } = renderSpans(
+    text,
+    spans.filter((span) => getRuleAction(span.rule) === "mask"),
+    vault
+  );
 
   devLog(
-    `[SANITIZE] Final sanitized text: ${JSON.stringify(
-      sanitizedText
-    )}. Has changes: ${sanitizedText !== text}.`
+    `[SANITIZE] Final sanitized text: ${sanitizedText.length} chars. Has changes: ${sanitizedText !== text}.`
   );
 
   return {
@@ -66,174 +100,609 @@ export function sanitize(
     sanitizedText,
     appliedRules,
     hasChanges: sanitizedText !== text,
+    lowConfidence,
+    flagged,
+    risk: computeSpanRisk(spans),
   };
 }
 
+/**
+ * What a rule does with its matches (mask unless set otherwise)
+ */
+export function getRuleAction(rule: SanitizationRule): RuleAction {
+  return rule.action ?? "mask";
+}
+
 /**
  * Preview sanitization without storing result
  * Same as sanitize but named differently for semantic clarity
  */
 export function previewSanitization(
   text: string,
-  rules: SanitizationRule[]
+  rules: SanitizationRule[],
+  options: SanitizeOptions = {}
 ): SanitizationResult {
-  return sanitize(text, rules);
+  return sanitize(text, rules, options);
 }
 
 /**
- * Apply a single rule to text
+ * Collect candidate spans of all given rules against the original text
+ * Candidates may overlap; use resolveSpans to pick the winners.
+ * Spans whose context condition doesn't hold are flagged lowConfidence,
+ * allowlisted values and matches outside the rule's scope are left out.
  */
-function applyRule(
+export function collectSpans(
   text: string,
-  rule: SanitizationRule
-): { newText: string; matches: string[]; replacementMap: ReplacementMap } {
-  const matches: string[] = [];
-  const replacementMap: ReplacementMap = {};
+  rules: SanitizationRule[],
+  allowlist?: AllowlistEntry[],
+  onRuleStart?: (rule: SanitizationRule) => void
+): MatchSpan[] {
+  return collectSpansInRange(
+    text,
+    rules,
+    { start: 0, end: text.length },
+    allowlist,
+    onRuleStart
+  );
+}
+
+/**
+ * Collect candidate spans of rules matched within a range of the text only
+ * Allowlist, scope and context checks still see the whole text.
+ */
+export function collectSpansInRange(
+  text: string,
+  rules: SanitizationRule[],
+  range: { start: number; end: number },
+  allowlist?: AllowlistEntry[],
+  onRuleStart?: (rule: SanitizationRule) => void
+): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  const searched =
+    range.start === 0 && range.end === text.length
+      ? text
+      : text.slice(range.start, range.end);
+  // Rules also run on a normalized copy so obfuscated values (fullwidth
+  // digits, zero-width spaces...) match; its matches map back to the
+  // original characters
+  const normalized = normalizeForMatching(searched);
+  // Code blocks are only looked up when a rule is scoped
+  let codeRanges: CodeRange[] | null = null;
+  rules.forEach((rule, ruleIndex) => {
+    onRuleStart?.(rule);
+    const checkContext = hasContextCondition(rule);
+    const scope = rule.scope ?? "all";
+    if (scope !== "all" && !codeRanges) codeRanges = findCodeRanges(text);
+    const found = findRuleMatches(searched, rule);
+    if (normalized) {
+      const seen = new Set(found.map((m) => `${m.start}:${m.end}`));
+      for (const range of findRuleMatches(normalized.text, rule)) {
+        const match = toOriginalRange(normalized, range);
+        if (!seen.has(`${match.start}:${match.end}`)) found.push(match);
+      }
+    }
+    for (const match of found) {
+      const start = match.start + range.start;
+      const end = match.end + range.start;
+      if (codeRanges && !isInScope(codeRanges, start, end, scope)) continue;
+
+      const value = text.slice(start, end);
+      if (isAllowed(value, allowlist) || isAllowed(value, rule.exceptions)) {
+        continue;
+      }
+
+      const span: MatchSpan = { start, end, value, rule, ruleIndex };
+      if (checkContext && !matchesContext(text, start, end, rule)) {
+        span.lowConfidence = true;
+      }
+      spans.push(span);
+    }
+  });
+  return spans;
+}
+
+/**
+ * Resolve overlapping candidate spans into a non-overlapping set
+ *
+ * Overlaps are won by, in order:
+ * 1. the higher rule priority (default 0)
+ * 2. the longer match
+ * 3. the rule listed first
+ * 4. the earlier match
+ *
+ * Returns the winning spans sorted by position.
+ */
+export function resolveSpans(candidates: MatchSpan[]): MatchSpan[] {
+  const ranked = [...candidates].sort(
+    (a, b) =>
+      (b.rule.priority ?? 0) - (a.rule.priority ?? 0) ||
+      b.end - b.start - (a.end - a.start) ||
+      a.ruleIndex - b.ruleIndex ||
+      a.start - b.start
+  );
+
+  // Accepted spans, kept sorted by start for overlap lookups
+  const accepted: MatchSpan[] = [];
+  for (const span of ranked) {
+    // First accepted span that ends after this one starts
+    let lo = 0;
+    let hi = accepted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (accepted[mid].end <= span.start) lo = mid + 1;
+      else hi = mid;
+    }
 
-  if (rule.isRegex) {
-    devLog("[APPLY_RULE] Using regex replacement");
+    const next = accepted[lo];
+    if (next && next.start < span.end) continue; // Overlaps a winner
+
+    accepted.splice(lo, 0, span);
+  }
+
+  return accepted;
+}
+
+/**
+ * Resolve overlapping candidate spans like resolveSpans, but block matches
+ * win over warn matches and both win over mask matches regardless of
+ * priority, so a match that has to be confirmed is never masked and sent
+ * instead
+ */
+export function resolveSpansByAction(candidates: MatchSpan[]): MatchSpan[] {
+  let spans: MatchSpan[] = [];
+  for (const action of ACTION_PRECEDENCE) {
+    const winners = resolveSpans(
+      candidates.filter(
+        (span) =>
+          getRuleAction(span.rule) === action && !overlapsAny(spans, span)
+      )
+    );
+    spans = [...spans, ...winners].sort((a, b) => a.start - b.start);
+  }
+  return spans;
+}
+
+/**
+ * Whether a span overlaps any of the given (sorted, non-overlapping) spans
+ */
+function overlapsAny(sorted: MatchSpan[], span: MatchSpan): boolean {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].end <= span.start) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < sorted.length && sorted[lo].start < span.end;
+}
+
+/**
+ * Build the sanitized text from resolved spans in one pass
+ */
+function renderSpans(
+  text: string,
+  spans: MatchSpan[],
+  vault: PseudonymVault
+): { sanitizedText: string; appliedRules: AppliedRule[] } {
+  const appliedByRule = new Map<string, AppliedRule>();
+  // Case variants of case-insensitive regex/dictionary matches share one mask
+  const foldedTokens = new Map<string, string>();
+  // All shifted dates of the text are read in one day/month order
+  let dateOrder: DateOrder | undefined;
+  let sanitizedText = "";
+  let lastIndex = 0;
+
+  for (const span of spans) {
+    const { rule, value } = span;
+
+    let applied = appliedByRule.get(rule.id);
+    if (!applied) {
+      applied = { rule, matchCount: 0, matches: [], replacementMap: {} };
+      appliedByRule.set(rule.id, applied);
+    }
+
+    let token = applied.replacementMap[value];
+    if (token === undefined) {
+      const ignoresCase =
+        rule.type === "dictionary"
+          ? !rule.caseSensitive
+          : rule.isRegex && (rule.flags || "").includes("i");
+      const foldKey = ignoresCase
+        ? `${rule.id}\u0000${value.toLowerCase()}`
+        : null;
+      if (rule.strategy === "shift") dateOrder ??= getDateOrder(text);
+      token =
+        (foldKey && foldedTokens.get(foldKey)) ||
+        maskValue(rule, value, vault, dateOrder);
+      if (foldKey) foldedTokens.set(foldKey, token);
+      applied.replacementMap[value] = token;
+    }
+
+    applied.matchCount++;
+    applied.matches.push(value);
+
+    sanitizedText += text.slice(lastIndex, span.start) + token;
+    lastIndex = span.end;
+  }
+  sanitizedText += text.slice(lastIndex);
+
+  devLog(
+    "[RENDER_SPANS] Applied rules:",
+    [...appliedByRule.values()]
+      .map((r) => `${r.rule.name} (${r.matchCount})`)
+      .join(", ")
+  );
+
+  // Report in rule order, like the rule list
+  const order = new Map(spans.map((span) => [span.rule.id, span.ruleIndex]));
+  const appliedRules = [...appliedByRule.values()].sort(
+    (a, b) => order.get(a.rule.id)! - order.get(b.rule.id)!
+  );
+
+  return { sanitizedText, appliedRules };
+}
+
+/**
+ * Find all (non-empty) matches of a single rule in text
+ */
+function findRuleMatches(
+  text: string,
+  rule: SanitizationRule
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+
+  if (
+    rule.type === "dictionary" ||
+    rule.type === "entropy" ||
+    rule.type === "structured" ||
+    rule.type === "url" ||
+    rule.type === "address" ||
+    rule.type === "date"
+  ) {
+    const found =
+      rule.type === "dictionary"
+        ? findDictionaryMatches(text, rule)
+        : rule.type === "entropy"
+          ? findEntropyMatches(text, rule)
+          : rule.type === "structured"
+            ? findStructuredMatches(text, rule)
+            : rule.type === "url"
+              ? findUrlMatches(text, rule)
+              : rule.type === "address"
+                ? findAddressMatches(text)
+                : findDateMatches(text);
+    for (const range of found) {
+      if (runValidator(rule.validator, text.slice(range.start, range.end))) {
+        ranges.push(range);
+      }
+    }
+  } else if (rule.isRegex) {
     try {
-      const flags = rule.flags || "g";
-      devLog("[APPLY_RULE] Regex flags:", flags);
-      const regexForMatching = new RegExp(rule.pattern, flags);
-      devLog("[APPLY_RULE] Regex pattern:", regexForMatching.toString());
+      let flags = rule.flags || "g";
+      // Matching needs the global flag to walk through all matches
+      if (!flags.includes("g")) flags += "g";
+      // Group offsets need the indices flag
+      if (rule.maskGroup && !flags.includes("d")) flags += "d";
+      const regex = getRuleRegex(rule, flags);
 
-      // Find all matches first
       let match;
-      while ((match = regexForMatching.exec(text)) !== null) {
-        devLog("[APPLY_RULE] Match found:", JSON.stringify(match[0]));
-        matches.push(match[0]);
-        // Prevent infinite loop for zero-length matches
+      while ((match = regex.exec(text)) !== null) {
+        // Prevent infinite loop for zero-length matches (nothing to mask)
         if (match[0].length === 0) {
-          regexForMatching.lastIndex++;
+          regex.lastIndex++;
+          continue;
         }
-      }
-
-      // Get distinct values
-      const distinctValues = [...new Set(matches)];
-      devLog("[APPLY_RULE] Distinct values:", JSON.stringify(distinctValues));
-
-      // Create replacement map for distinct values
-      let newText = text;
-      distinctValues.forEach((value, index) => {
-        const indexedReplacement = `${rule.replacement}_${index + 1}`;
-        replacementMap[value] = indexedReplacement;
-        devLog(
-          "[APPLY_RULE] Replacing:",
-          JSON.stringify(value),
-          "with:",
-          indexedReplacement
-        );
-
-        const valueRegex = new RegExp(
-          escapeRegExp(value),
-          flags.includes("i") ? "gi" : "g"
-        );
-        devLog("[APPLY_RULE] Value regex:", valueRegex.toString());
-        const beforeReplace = newText;
-        newText = newText.replace(valueRegex, indexedReplacement);
-        devLog("[APPLY_RULE] Before:", JSON.stringify(beforeReplace));
-        devLog("[APPLY_RULE] After:", JSON.stringify(newText));
-      });
 
-      return { newText, matches, replacementMap };
+        const range = rule.maskGroup
+          ? getGroupRange(match, rule.maskGroup)
+          : { start: match.index, end: match.index + match[0].length };
+        if (
+          !range ||
+          range.start === range.end ||
+          !runValidator(rule.validator, text.slice(range.start, range.end))
+        ) {
+          // A valid match may start inside the rejected one
+          regex.lastIndex = match.index + 1;
+          continue;
+        }
+        ranges.push(range);
+      }
     } catch (e) {
       console.error("Invalid regex pattern:", rule.pattern, e);
-      return { newText: text, matches: [], replacementMap: {} };
     }
-  } else {
-    // Literal string replacement (case-insensitive, global)
-    devLog("[APPLY_RULE] Using literal replacement (case-insensitive)");
-    devLog("[APPLY_RULE] Pattern to find:", JSON.stringify(rule.pattern));
-    devLog("[APPLY_RULE] Replacement string:", rule.replacement);
-
-    let newText = text;
+  } else if (rule.pattern) {
+    // Literal string matching (case-insensitive, global)
     const lowerText = text.toLowerCase();
     const lowerPattern = rule.pattern.toLowerCase();
     let index = 0;
-    const matchedValues: string[] = [];
-
-    // Find all matches (case-insensitive) and capture the actual matched text
     while ((index = lowerText.indexOf(lowerPattern, index)) !== -1) {
-      const actualMatch = text.substring(index, index + rule.pattern.length);
-      matches.push(actualMatch);
-      matchedValues.push(actualMatch);
-      devLog(
-        "[APPLY_RULE] Found pattern at index:",
-        index,
-        "actual match:",
-        JSON.stringify(actualMatch)
-      );
-      index += rule.pattern.length;
+      const end = index + rule.pattern.length;
+      if (runValidator(rule.validator, text.slice(index, end))) {
+        ranges.push({ start: index, end });
+      }
+      index = end;
+    }
+  }
+
+  devLog(`[FIND_RULE_MATCHES] ${rule.name}: ${ranges.length} match(es)`);
+  return ranges;
+}
+
+/**
+ * Compiled regex of a rule, reused while the rule is unchanged
+ * Cached per rule ID and keyed by updatedAt; the pattern and flags are part
+ * of the key too, since drafts being edited all have the same updatedAt.
+ */
+function getRuleRegex(rule: SanitizationRule, flags: string): RegExp {
+  const key = `${rule.updatedAt}\u0000${rule.pattern}\u0000${flags}`;
+  const cached = regexCache.get(rule.id);
+  if (cached?.key === key) {
+    cached.regex.lastIndex = 0;
+    return cached.regex;
+  }
+
+  const regex = new RegExp(rule.pattern, flags);
+  regexCache.set(rule.id, { key, regex });
+  return regex;
+}
+
+/**
+ * Offsets of a capture group (by number or name) in a match made with the
+ * indices flag, null when the group didn't participate
+ */
+function getGroupRange(
+  match: RegExpExecArray,
+  group: string
+): { start: number; end: number } | null {
+  const indices = /^\d+$/.test(group)
+    ? match.indices?.[Number(group)]
+    : match.indices?.groups?.[group];
+  return indices ? { start: indices[0], end: indices[1] } : null;
+}
+
+// scheme://... up to whitespace, quotes or angle brackets
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s<>"'`]+/gi;
+
+/**
+ * Find the parts of URLs a url rule masks, leaving the rest of each URL intact
+ * - userinfo (user:pass@)
+ * - values of the rule's query and fragment parameters (case-insensitive)
+ * - hosts on or under one of the rule's internal domains
+ */
+export function findUrlMatches(
+  text: string,
+  rule: Pick<SanitizationRule, "queryParams" | "internalDomains">
+): { start: number; end: number }[] {
+  const params = new Set(
+    (rule.queryParams || []).map((name) => name.trim().toLowerCase())
+  );
+  const domains = (rule.internalDomains || [])
+    .map((domain) =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^\*?\./, "")
+    )
+    .filter(Boolean);
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimUrl(match[0]);
+    const offset = match.index;
+
+    // Authority: everything after "//" up to the path, query or fragment
+    const authorityStart = url.indexOf("//") + 2;
+    const authorityEnd =
+      authorityStart + url.slice(authorityStart).search(/[/?#]|$/);
+    const authority = url.slice(authorityStart, authorityEnd);
+
+    const at = authority.lastIndexOf("@");
+    if (at > 0) {
+      ranges.push({
+        start: offset + authorityStart,
+        end: offset + authorityStart + at,
+      });
     }
 
-    devLog("[APPLY_RULE] Total matches found:", matches.length);
-
-    // Get distinct matched values (preserving original case)
-    const distinctValues = [...new Set(matchedValues)];
-    devLog("[APPLY_RULE] Distinct values:", JSON.stringify(distinctValues));
-
-    // Replace each distinct value with indexed replacement
-    if (distinctValues.length > 0) {
-      distinctValues.forEach((value, idx) => {
-        const indexedReplacement = `${rule.replacement}_${idx + 1}`;
-        replacementMap[value] = indexedReplacement;
-        devLog(
-          "[APPLY_RULE] Replacing:",
-          JSON.stringify(value),
-          "with:",
-          indexedReplacement
-        );
-
-        // Use case-insensitive regex to replace all occurrences of this specific case variant
-        const valueRegex = new RegExp(escapeRegExp(value), "g");
-        newText = newText.replace(valueRegex, indexedReplacement);
+    const hostStart = authorityStart + at + 1;
+    const host = authority.slice(at + 1).replace(/:\d*$/, "");
+    const hostname = host.toLowerCase().replace(/\.$/, "");
+    if (
+      hostname &&
+      domains.some(
+        (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+      )
+    ) {
+      ranges.push({
+        start: offset + hostStart,
+        end: offset + hostStart + host.length,
       });
-      devLog("[APPLY_RULE] Text AFTER replacement:", JSON.stringify(newText));
     }
 
-    return { newText, matches, replacementMap };
+    // key=value pairs of the query and of the fragment (OAuth tokens)
+    if (params.size === 0) continue;
+    for (const pair of url
+      .slice(authorityEnd)
+      .matchAll(/[?&#;]([^=&#;]+)=([^&#;]*)/g)) {
+      if (!pair[2] || !params.has(decodeParam(pair[1]).toLowerCase())) continue;
+      const start =
+        offset + authorityEnd + pair.index + pair[0].length - pair[2].length;
+      ranges.push({ start, end: start + pair[2].length });
+    }
   }
+
+  return ranges;
 }
 
 /**
- * Escape special regex characters in a string
+ * Drop trailing punctuation that ends the sentence rather than the URL
+ * Closing brackets are kept when the URL opened them, e.g. wiki links.
  */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1];
+    if (/[.,;:!?]/.test(char)) {
+      end--;
+    } else if (char === ")" || char === "]") {
+      const open = char === ")" ? "(" : "[";
+      const body = url.slice(0, end);
+      if (body.split(open).length >= body.split(char).length) break;
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+function decodeParam(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, " "));
+  } catch {
+    return name;
+  }
 }
 
 /**
- * Validate a regex pattern
+ * Validate a regex pattern (and the capture group to mask, if any)
+ * Valid patterns that are prone to catastrophic backtracking come with a
+ * warning, since they can freeze the page on some inputs.
  */
 export function validatePattern(
   pattern: string,
-  isRegex: boolean
-): { valid: boolean; error?: string } {
+  isRegex: boolean,
+  maskGroup?: string
+): { valid: boolean; error?: string; warning?: string } {
   if (!pattern) {
     return { valid: false, error: "Pattern cannot be empty" };
   }
 
   if (isRegex) {
+    let regex: RegExp;
     try {
-      new RegExp(pattern);
-      return { valid: true };
+      regex = new RegExp(pattern);
     } catch (e) {
       return { valid: false, error: (e as Error).message };
     }
+
+    if (maskGroup) {
+      // An alternation with the empty string always matches, exposing all groups
+      const groups = new RegExp(`${regex.source}|`).exec("")!;
+      const exists = /^\d+$/.test(maskGroup)
+        ? Number(maskGroup) >= 1 && Number(maskGroup) < groups.length
+        : !!groups.groups && maskGroup in groups.groups;
+      if (!exists) {
+        return {
+          valid: false,
+          error: `Pattern has no capture group "${maskGroup}"`,
+        };
+      }
+    }
+
+    const risk = findBacktrackingRisk(pattern);
+    return risk ? { valid: true, warning: risk } : { valid: true };
   }
 
   return { valid: true };
 }
 
 /**
- * Test a pattern against sample text
+ * Look for constructs that backtrack exponentially on near-matches: a
+ * repeated group containing a repetition that isn't delimited by a required
+ * token at the group's end, e.g. (a+)+ or (\w+\s?)* but not (\w+\.)+
+ * Returns a description of the first one found.
+ */
+function findBacktrackingRisk(pattern: string): string | null {
+  // Per open group: whether its content repeats unboundedly, whether the
+  // current alternative / any alternative ends in a variable-length part
+  const groups = [
+    { start: 0, repeats: false, tailVaries: false, anyTailVaries: false },
+  ];
+  const current = () => groups[groups.length - 1];
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    let atomEnd = i + 1;
+
+    if (char === "\\") {
+      atomEnd = i + 2;
+    } else if (char === "[") {
+      // Skip the class, a leading ] or any escaped character is literal
+      let end = i + 1;
+      if (pattern[end] === "^") end++;
+      if (pattern[end] === "]") end++;
+      while (end < pattern.length && pattern[end] !== "]") {
+        end += pattern[end] === "\\" ? 2 : 1;
+      }
+      atomEnd = end + 1;
+    } else if (char === "(") {
+      groups.push({
+        start: i,
+        repeats: false,
+        tailVaries: false,
+        anyTailVaries: false,
+      });
+      // Skip (?: (?= (?! (?<= (?<! and (?<name>
+      const prefix = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(pattern.slice(i + 1));
+      i += 1 + (prefix ? prefix[0].length : 0);
+      continue;
+    } else if (char === "|") {
+      current().anyTailVaries ||= current().tailVaries;
+      current().tailVaries = false;
+      i++;
+      continue;
+    } else if (char === ")" && groups.length > 1) {
+      const group = groups.pop()!;
+      const tailVaries = group.anyTailVaries || group.tailVaries;
+      const quantifier = readQuantifier(pattern, i + 1);
+      if (group.repeats && tailVaries && quantifier?.unbounded) {
+        return `Nested repetition in "${pattern.slice(group.start, quantifier.end)}" can cause catastrophic backtracking`;
+      }
+      current().repeats ||= group.repeats || !!quantifier?.unbounded;
+      current().tailVaries = tailVaries || !!quantifier?.varies;
+      i = quantifier ? quantifier.end : i + 1;
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, atomEnd);
+    if (quantifier?.unbounded) current().repeats = true;
+    current().tailVaries = !!quantifier?.varies;
+    i = quantifier ? quantifier.end : atomEnd;
+  }
+
+  return null;
+}
+
+/**
+ * Read a quantifier (*, +, ?, {n}, {n,}, {n,m}, optionally lazy) at an index
+ */
+function readQuantifier(
+  pattern: string,
+  index: number
+): { end: number; unbounded: boolean; varies: boolean } | null {
+  const match = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/.exec(pattern.slice(index));
+  if (!match) return null;
+  const unbounded =
+    match[0][0] === "*" ||
+    match[0][0] === "+" ||
+    (match[2] !== undefined && match[3] === "");
+  // Only {n} repeats a fixed number of times
+  const varies = match[0][0] !== "{" || match[2] !== undefined;
+  return { end: index + match[0].length, unbounded, varies };
+}
+
+/**
+ * Test a pattern against sample text (allowlisted values don't count)
  */
 export function testPattern(
   text: string,
   pattern: string,
   isRegex: boolean,
-  flags?: string
+  flags?: string,
+  validator?: ValidatorId,
+  allowlist?: AllowlistEntry[]
 ): { matches: string[]; count: number } {
   const matches: string[] = [];
 
@@ -243,13 +712,23 @@ export function testPattern(
 
   if (isRegex) {
     try {
-      const regex = new RegExp(pattern, flags || "g");
+      const regexFlags = flags || "g";
+      const regex = new RegExp(
+        pattern,
+        regexFlags.includes("g") ? regexFlags : regexFlags + "g"
+      );
       let match;
       while ((match = regex.exec(text)) !== null) {
-        matches.push(match[0]);
         if (match[0].length === 0) {
           regex.lastIndex++;
+        } else if (!runValidator(validator, match[0])) {
+          // A valid match may start inside the rejected one
+          regex.lastIndex = match.index + 1;
+          continue;
+        } else if (isAllowed(match[0], allowlist)) {
+          continue;
         }
+        matches.push(match[0]);
       }
     } catch {
       // Invalid regex
@@ -262,7 +741,12 @@ export function testPattern(
     while ((index = lowerText.indexOf(lowerPattern, index)) !== -1) {
       // Capture the actual matched text (with original case)
       const actualMatch = text.substring(index, index + pattern.length);
-      matches.push(actualMatch);
+      if (
+        runValidator(validator, actualMatch) &&
+        !isAllowed(actualMatch, allowlist)
+      ) {
+        matches.push(actualMatch);
+      }
       index += pattern.length;
     }
   }
@@ -270,6 +754,52 @@ export function testPattern(
   return { matches, count: matches.length };
 }
 
+/**
+ * Test a rule of any type against sample text
+ * Matches outside the rule's context are reported separately.
+ */
+export function testRule(
+  text: string,
+  rule: SanitizationRule,
+  allowlist?: AllowlistEntry[]
+): { matches: string[]; count: number; lowConfidence: string[] } {
+  const needsSpans =
+    (rule.type ?? "pattern") !== "pattern" ||
+    (rule.isRegex && !!rule.maskGroup) ||
+    hasContextCondition(rule) ||
+    (rule.scope ?? "all") !== "all" ||
+    normalizeForMatching(text) !== null;
+
+  if (!needsSpans) {
+    return {
+      ...testPattern(
+        text,
+        rule.pattern,
+        rule.isRegex,
+        rule.flags,
+        rule.validator,
+        [...(allowlist || []), ...(rule.exceptions || [])]
+      ),
+      lowConfidence: [],
+    };
+  }
+
+  const isPattern = (rule.type ?? "pattern") === "pattern";
+  if (!text || (isPattern && !rule.pattern)) {
+    return { matches: [], count: 0, lowConfidence: [] };
+  }
+
+  let spans = collectSpans(text, [rule], allowlist);
+  // Report overlapping terms once, like the sanitizer would mask them
+  if (rule.type === "dictionary") spans = resolveSpans(spans);
+
+  const matches = spans.filter((s) => !s.lowConfidence).map((s) => s.value);
+  const lowConfidence = spans
+    .filter((s) => s.lowConfidence)
+    .map((s) => s.value);
+  return { matches, count: matches.length, lowConfidence };
+}
+
 /**
  * Common PII patterns for preset rules
  */
@@ -297,6 +827,7 @@ export const COMMON_PATTERNS = {
     isRegex: true,
     flags: "g",
     category: "PII",
+    validator: "ssn",
   },
   creditCard: {
     name: "Credit Card Number",
@@ -305,6 +836,7 @@ export const COMMON_PATTERNS = {
     isRegex: true,
     flags: "g",
     category: "Financial",
+    validator: "luhn",
   },
   ipAddress: {
     name: "IP Address",
@@ -313,6 +845,7 @@ export const COMMON_PATTERNS = {
     isRegex: true,
     flags: "g",
     category: "Technical",
+    validator: "ipv4",
   },
   apiKey: {
     name: "API Key (Generic)",
@@ -322,5 +855,16 @@ export const COMMON_PATTERNS = {
     isRegex: true,
     flags: "gi",
     category: "Technical",
+    // Keep the "api_key=" label so the LLM still knows what was masked
+    maskGroup: "1",
+  },
+  highEntropy: {
+    name: "High-Entropy Secret",
+    type: "entropy",
+    pattern: "",
+    replacement: "[SECRET]",
+    isRegex: false,
+    flags: "g",
+    category: "Technical",
   },
 } as const;
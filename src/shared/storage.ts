@@ -4,14 +4,25 @@ import type {
   StorageSchema,
   OverlayPositions,
   OverlayPosition,
+  PseudonymVault,
+  PseudonymVaults,
+  AllowlistEntry,
+  IdCountry,
 } from "./types";
 import { DEFAULT_SETTINGS as defaultSettings } from "./types";
-import { DEFAULT_RULES } from "./constants";
+import {
+  DEFAULT_RULES,
+  MAX_VAULTS,
+  RULES_VERSION,
+  SYSTEM_RULES_ADDED_IN,
+} from "./constants";
 
 type StorageChangeCallback = (changes: {
   rules?: SanitizationRule[];
   settings?: ExtensionSettings;
   overlayPositions?: OverlayPositions;
+  allowlist?: AllowlistEntry[];
+  vaults?: PseudonymVaults;
 }) => void;
 
 /**
@@ -43,6 +54,15 @@ class StorageService {
             update.overlayPositions = changes.overlayPositions
               .newValue as OverlayPositions;
           }
+          if (changes.allowlist) {
+            update.allowlist =
+              (changes.allowlist.newValue as AllowlistEntry[] | undefined) ||
+              [];
+          }
+          if (changes.vaults) {
+            update.vaults =
+              (changes.vaults.newValue as PseudonymVaults | undefined) || {};
+          }
           this.notifyListeners(update);
         }
       });
@@ -69,27 +89,62 @@ class StorageService {
    * Get all sanitization rules
    */
   async getRules(): Promise<SanitizationRule[]> {
-    const data = await this.get(["rules"]);
+    const data = await this.get(["rules", "rulesVersion"]);
     const rules = data.rules || [];
 
     if (rules.length === 0) {
       return this.initializeDefaultRules();
     }
 
-    return rules;
+    return this.migrateRules(rules, data.rulesVersion);
+  }
+
+  /**
+   * Bring stored system rules up to date with the bundled defaults
+   * Only fills in fields the stored copy doesn't have, so user edits are kept.
+   * System rules added since the stored version are appended.
+   */
+  private async migrateRules(
+    rules: SanitizationRule[],
+    version = 0
+  ): Promise<SanitizationRule[]> {
+    if (rules.length === 0 || version >= RULES_VERSION) return rules;
+
+    const defaults = new Map(DEFAULT_RULES.map((r) => [r.id, r]));
+    const migrated = rules.map((rule) => {
+      const defaultRule = rule.isSystem ? defaults.get(rule.id) : undefined;
+      return defaultRule ? { ...defaultRule, ...rule } : rule;
+    });
+
+    const existingIds = new Set(rules.map((r) => r.id));
+    const now = Date.now();
+    for (const rule of DEFAULT_RULES) {
+      if (
+        !existingIds.has(rule.id) &&
+        (SYSTEM_RULES_ADDED_IN[rule.id] ?? 0) > version
+      ) {
+        migrated.push({ ...rule, createdAt: now, updatedAt: now });
+      }
+    }
+
+    await this.set({ rules: migrated, rulesVersion: RULES_VERSION });
+    return migrated;
   }
 
   /**
    * Initialize default system rules
    */
   private async initializeDefaultRules(): Promise<SanitizationRule[]> {
+    const { idCountries } = await this.getSettings();
     const now = Date.now();
     const defaultRules: SanitizationRule[] = DEFAULT_RULES.map((rule) => ({
       ...rule,
+      // National ID rules follow the selected countries
+      enabled: rule.country ? idCountries.includes(rule.country) : rule.enabled,
       createdAt: now,
       updatedAt: now,
     }));
-    await this.set({ rules: defaultRules });
+    await this.set({ rules: defaultRules, rulesVersion: RULES_VERSION });
     return defaultRules;
   }
 
@@ -149,7 +204,34 @@ class StorageService {
     const rules = await this.getRules();
     const rule = rules.find((r) => r.id === id);
     if (!rule) return null;
-    return this.updateRule(id, { enabled: !rule.enabled });
+    // Enabling a rule again clears its timeout flag
+    return this.updateRule(id, {
+      enabled: !rule.enabled,
+      timedOutAt: rule.enabled ? rule.timedOutAt : undefined,
+    });
+  }
+
+  /**
+   * Enable or disable every rule of a category at once
+   * National ID rules are left alone, they follow the selected countries
+   * (see setIdCountries).
+   */
+  async setCategoryEnabled(category: string, enabled: boolean): Promise<void> {
+    const rules = await this.getRules();
+    const now = Date.now();
+    await this.set({
+      rules: rules.map((rule) =>
+        rule.category === category && !rule.country && rule.enabled !== enabled
+          ? {
+              ...rule,
+              enabled,
+              // Enabling a rule again clears its timeout flag
+              timedOutAt: enabled ? undefined : rule.timedOutAt,
+              updatedAt: now,
+            }
+          : rule
+      ),
+    });
   }
 
   /**
@@ -186,6 +268,55 @@ class StorageService {
     return updated;
   }
 
+  /**
+   * Select the countries of the national ID pack
+   * Rules of newly selected countries are enabled and those of deselected
+   * ones disabled; rules of unchanged countries keep their own state.
+   */
+  async setIdCountries(countries: IdCountry[]): Promise<void> {
+    const [settings, rules] = await Promise.all([
+      this.getSettings(),
+      this.getRules(),
+    ]);
+    const changed = new Set(
+      [...settings.idCountries, ...countries].filter(
+        (c) => settings.idCountries.includes(c) !== countries.includes(c)
+      )
+    );
+
+    const now = Date.now();
+    const updatedRules = rules.map((rule) => {
+      if (!rule.country || !changed.has(rule.country)) return rule;
+      const enabled = countries.includes(rule.country);
+      // Enabling a rule again clears its timeout flag
+      return {
+        ...rule,
+        enabled,
+        timedOutAt: enabled ? undefined : rule.timedOutAt,
+        updatedAt: now,
+      };
+    });
+    await this.set({
+      rules: updatedRules,
+      settings: { ...settings, idCountries: countries },
+    });
+  }
+
+  /**
+   * Get the global allowlist
+   */
+  async getAllowlist(): Promise<AllowlistEntry[]> {
+    const data = await this.get(["allowlist"]);
+    return data.allowlist || [];
+  }
+
+  /**
+   * Replace the global allowlist
+   */
+  async setAllowlist(allowlist: AllowlistEntry[]): Promise<void> {
+    await this.set({ allowlist });
+  }
+
   /**
    * Export all rules as JSON
    */
@@ -228,12 +359,19 @@ class StorageService {
    * Get full storage data
    */
   async getAll(): Promise<StorageSchema> {
-    const data = await this.get(["rules", "settings", "overlayPositions"]);
+    const data = await this.get([
+      "rules",
+      "settings",
+      "overlayPositions",
+      "allowlist",
+      "rulesVersion",
+    ]);
     const storedSettings = data.settings as Partial<ExtensionSettings> | undefined;
     return {
-      rules: data.rules || [],
+      rules: await this.migrateRules(data.rules || [], data.rulesVersion),
       settings: { ...defaultSettings, ...(storedSettings || {}) },
       overlayPositions: data.overlayPositions,
+      allowlist: data.allowlist || [],
     };
   }
 
@@ -283,6 +421,41 @@ class StorageService {
     await this.remove(["overlayPositions"]);
   }
 
+  /**
+   * Get the pseudonym vault for a conversation
+   */
+  async getVault(key: string): Promise<PseudonymVault | null> {
+    const data = await this.get(["vaults"]);
+    return data.vaults?.[key] || null;
+  }
+
+  /**
+   * Save the pseudonym vault for a conversation
+   */
+  async setVault(key: string, vault: PseudonymVault): Promise<void> {
+    const data = await this.get(["vaults"]);
+    const vaults = data.vaults || {};
+    vaults[key] = vault;
+
+    // Drop the least recently used vaults beyond the limit
+    const keys = Object.keys(vaults);
+    if (keys.length > MAX_VAULTS) {
+      keys
+        .sort((a, b) => vaults[a].updatedAt - vaults[b].updatedAt)
+        .slice(0, keys.length - MAX_VAULTS)
+        .forEach((k) => delete vaults[k]);
+    }
+
+    await this.set({ vaults });
+  }
+
+  /**
+   * Delete all conversation vaults
+   */
+  async clearVaults(): Promise<void> {
+    await this.remove(["vaults"]);
+  }
+
   /**
    * Delete all rules
    */
@@ -292,13 +465,29 @@ class StorageService {
 
   /**
    * Reset settings to default
+   * National ID rules are enabled or disabled to match the default
+   * countries.
    */
   async resetSettings(): Promise<void> {
-    await this.set({ settings: defaultSettings });
+    const rules = await this.getRules();
+    const now = Date.now();
+    const updatedRules = rules.map((rule) => {
+      if (!rule.country) return rule;
+      const enabled = defaultSettings.idCountries.includes(rule.country);
+      if (enabled === rule.enabled) return rule;
+      return {
+        ...rule,
+        enabled,
+        timedOutAt: enabled ? undefined : rule.timedOutAt,
+        updatedAt: now,
+      };
+    });
+    await this.set({ rules: updatedRules, settings: defaultSettings });
   }
 
   /**
    * Reset rules to default system rules
+   * National ID rules are enabled for the selected countries.
    */
   async resetRules(): Promise<void> {
     await this.initializeDefaultRules();
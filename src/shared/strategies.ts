@@ -0,0 +1,143 @@
+import type {
+  MaskingStrategy,
+  PseudonymVault,
+  SanitizationRule,
+} from "./types";
+import { allocateToken, createVault } from "./vault";
+import { allocateFake } from "./fakeData";
+import { allocateShiftedDate, type DateOrder } from "./dates";
+
+/**
+ * How many trailing characters partial masks keep by default
+ */
+export const DEFAULT_KEEP_LAST = 4;
+
+/**
+ * Available masking strategies, in the order they are offered
+ */
+export const MASKING_STRATEGIES: Record<
+  MaskingStrategy,
+  { name: string; description: string }
+> = {
+  indexed: {
+    name: "Indexed token",
+    description: "Numbered token per distinct value, e.g. [EMAIL]_1",
+  },
+  fixed: {
+    name: "Fixed token",
+    description: "Same token for every value, e.g. [EMAIL]",
+  },
+  partial: {
+    name: "Partial mask",
+    description: "Keeps the email domain or the last characters",
+  },
+  "preserve-format": {
+    name: "Format-preserving mask",
+    description:
+      "Letters and digits become X, separators stay, e.g. XXX-XX-1234",
+  },
+  redact: {
+    name: "Full redaction",
+    description: "Removes the value entirely",
+  },
+  fake: {
+    name: "Realistic fake data",
+    description:
+      "Consistent synthetic value of the same type, e.g. alex.kim42@example.com",
+  },
+  shift: {
+    name: "Date shift",
+    description:
+      "Moves every date in the conversation by the same random number of days, keeping intervals",
+  },
+};
+
+/**
+ * Produce the masked text for a value according to the rule's strategy
+ * Indexed tokens, fakes and shifted dates are allocated from (and recorded
+ * in) the vault. Ambiguous dates are shifted in the given day/month order.
+ */
+export function maskValue(
+  rule: Pick<
+    SanitizationRule,
+    "replacement" | "strategy" | "keepLast" | "validator"
+  >,
+  value: string,
+  vault: PseudonymVault,
+  dateOrder?: DateOrder
+): string {
+  const keepLast = rule.keepLast ?? DEFAULT_KEEP_LAST;
+
+  switch (rule.strategy ?? "indexed") {
+    case "indexed":
+      return allocateToken(vault, value, rule.replacement);
+    case "fixed":
+      return rule.replacement;
+    case "partial":
+      return partialMask(value, keepLast);
+    case "preserve-format":
+      return formatPreservingMask(value, keepLast);
+    case "redact":
+      return "";
+    case "fake":
+      return allocateFake(vault, value, rule);
+    case "shift":
+      return allocateShiftedDate(vault, value, rule.replacement, dateOrder);
+  }
+}
+
+/**
+ * Mask a sample value with every strategy (for live previews)
+ */
+export function previewStrategies(
+  rule: Pick<SanitizationRule, "replacement" | "keepLast" | "validator">,
+  value: string
+): Record<MaskingStrategy, string> {
+  const previews = {} as Record<MaskingStrategy, string>;
+  for (const strategy of Object.keys(MASKING_STRATEGIES) as MaskingStrategy[]) {
+    previews[strategy] = maskValue({ ...rule, strategy }, value, createVault());
+  }
+  return previews;
+}
+
+/**
+ * Keep an email's domain, otherwise the last `keepLast` letters/digits;
+ * everything else alphanumeric becomes *
+ */
+function partialMask(value: string, keepLast: number): string {
+  const at = value.lastIndexOf("@");
+  if (at > 0) {
+    return "*".repeat(at) + value.slice(at);
+  }
+  return maskAlphanumerics(value, keepLast, () => "*");
+}
+
+/**
+ * Replace letters and digits with X/x (keeping case) and keep separators
+ * and the last `keepLast` letters/digits
+ */
+function formatPreservingMask(value: string, keepLast: number): string {
+  return maskAlphanumerics(value, keepLast, (char) =>
+    char >= "a" && char <= "z" ? "x" : "X"
+  );
+}
+
+function maskAlphanumerics(
+  value: string,
+  keepLast: number,
+  replace: (char: string) => string
+): string {
+  const isAlphanumeric = (char: string) => /[\p{L}\p{N}]/u.test(char);
+  const total = [...value].filter(isAlphanumeric).length;
+  // Never reveal everything: short values are masked completely
+  const keep = total > keepLast ? keepLast : 0;
+
+  let seen = 0;
+  return [...value]
+    .map((char) => {
+      if (!isAlphanumeric(char)) return char;
+      seen++;
+      return seen > total - keep ? char : replace(char);
+    })
+    .join("");
+}
@@ -0,0 +1,414 @@
+import type { SanitizationRule } from "./types";
+import { findCodeRanges } from "./codeBlocks";
+
+type Range = { start: number; end: number };
+type Line = { start: number; text: string };
+
+// "key": value / 'key': value (JSON, JS objects, Python dicts)
+const QUOTED_KEY_PAIR = /(["'])((?:\\.|(?!\1)[^\\\n])*)\1[ \t]*:[ \t]*/g;
+
+// key: value at the start of a line (YAML, HTTP headers, "Password: ...")
+const LINE_KEY_PAIR =
+  /^[ \t]*(?:-[ \t]+)?([A-Za-z_][\w.-]*)[ \t]*:[ \t]+(\S.*?)[ \t]*$/gm;
+
+// A line starting with a key, with or without a value ("database:")
+const KEY_LINE = /^[ \t]*(?:-[ \t]+)?[A-Za-z_][\w.-]*[ \t]*:(?:[ \t]|$)/;
+
+// Consecutive key lines needed outside code blocks, so a sentence such as
+// "Password: I forgot mine, how do I reset it?" isn't taken for YAML
+const MIN_KEY_LINES = 2;
+
+// Rows below the header a table needs outside code blocks
+const MIN_TABLE_ROWS = 2;
+
+// Header cells are column names, not sentences ("Card Number", "email")
+const HEADER_CELL =
+  /^[\p{L}_(][\p{L}\p{N}_#/().-]*(?: [\p{L}\p{N}_#/().-]+){0,2}$/u;
+
+// key=value anywhere (.env, logs, query strings, SQL SET/WHERE, code)
+const ASSIGNMENT =
+  /(?<![\w.-])([A-Za-z_][\w.-]*)[ \t]*=(?!=)[ \t]*("(?:\\.|[^"\\\n])*"|'(?:''|\\.|[^'\\\n])*'|[^\s,;&)]+)/g;
+
+// INSERT INTO table (columns) VALUES (...), (...)
+const SQL_INSERT = /INSERT\s+INTO\s+[\w."`[\]]+\s*\(([^)]*)\)\s*VALUES\s*/gi;
+
+// Values that are placeholders rather than data
+const PLACEHOLDER_VALUE = /^(?:|null|none|true|false|\$\{[^}]*\}|\*+)$/i;
+
+const CSV_DELIMITERS = [",", "\t", ";", "|"];
+
+/**
+ * Find values of sensitive keys/columns in structured text
+ *
+ * Recognizes key/value pairs of JSON, YAML, .env files and logs, SQL INSERT
+ * statements and comparisons, and CSV/TSV/Markdown tables with a header row.
+ * "key: value" lines and tables only count in code blocks or when they look
+ * like structured data (several key lines, a header with rows), so prose
+ * isn't masked. Only the value itself is returned (without quotes), so
+ * masking it in place keeps the surrounding structure intact.
+ */
+export function findStructuredMatches(
+  text: string,
+  rule: Pick<SanitizationRule, "keys">
+): Range[] {
+  const keys = (rule.keys || []).map(normalizeKey).filter(Boolean);
+  if (keys.length === 0) return [];
+  const isSensitive = (key: string) => isSensitiveKey(key, keys);
+  const fences = findCodeRanges(text).filter((r) => r.kind === "fenced");
+  const isInFence = (index: number) =>
+    fences.some((fence) => fence.start <= index && index < fence.end);
+  const lines = splitLines(text);
+
+  const found: Range[] = [
+    ...findQuotedKeyValues(text, isSensitive),
+    ...findLineKeyValues(text, lines, isSensitive, isInFence),
+    ...findAssignments(text, isSensitive),
+    ...findSqlInsertValues(text, isSensitive),
+    ...findTableCells(lines, isSensitive, isInFence),
+  ];
+
+  // Formats overlap (e.g. a JSON line also looks like YAML), keep the first
+  const ranges: Range[] = [];
+  for (const range of found.sort((a, b) => a.start - b.start)) {
+    const last = ranges[ranges.length - 1];
+    if (!last || range.start >= last.end) ranges.push(range);
+  }
+  return ranges;
+}
+
+/**
+ * Whether a key (e.g. "db_password", "apiKey" or "user.email") names a
+ * sensitive value
+ *
+ * Keys are compared by whole segments (split on "_", "-", spaces and
+ * camelCase), so "access_token" matches "token" but "max_tokens" doesn't.
+ */
+function isSensitiveKey(key: string, sensitiveKeys: string[]): boolean {
+  const segments = splitKey(key.split(".").pop() || key);
+  // Runs of adjacent segments, joined ("x_api_key" -> "apikey")
+  const runs = new Set<string>();
+  for (let i = 0; i < segments.length; i++) {
+    let run = "";
+    for (let j = i; j < segments.length; j++) {
+      run += segments[j];
+      runs.add(run);
+    }
+  }
+  return sensitiveKeys.some((name) => runs.has(name));
+}
+
+function splitKey(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function findQuotedKeyValues(
+  text: string,
+  isSensitive: (key: string) => boolean
+): Range[] {
+  const ranges: Range[] = [];
+  for (const match of text.matchAll(QUOTED_KEY_PAIR)) {
+    if (!isSensitive(match[2])) continue;
+    const range = readValue(text, match.index + match[0].length, /[,}\]\n]/);
+    if (range) ranges.push(range);
+  }
+  return ranges;
+}
+
+function findLineKeyValues(
+  text: string,
+  lines: Line[],
+  isSensitive: (key: string) => boolean,
+  isInFence: (index: number) => boolean
+): Range[] {
+  // Size of the run of key lines each line belongs to
+  const runLengths: number[] = new Array(lines.length).fill(0);
+  let i = 0;
+  while (i < lines.length) {
+    let end = i;
+    while (end < lines.length && KEY_LINE.test(lines[end].text)) end++;
+    for (let j = i; j < end; j++) runLengths[j] = end - i;
+    i = Math.max(end, i + 1);
+  }
+  const isInKeyBlock = (index: number) => {
+    const line = findLineIndex(lines, index);
+    return runLengths[line] >= MIN_KEY_LINES || isInFence(index);
+  };
+
+  const ranges: Range[] = [];
+  for (const match of text.matchAll(LINE_KEY_PAIR)) {
+    // Nested blocks, flow collections, anchors and multi-line scalars
+    if (!isSensitive(match[1]) || /^[[{|>&*!]/.test(match[2])) continue;
+    if (!isInKeyBlock(match.index)) continue;
+    const valueStart =
+      match.index + match[0].indexOf(match[2], match[1].length);
+    const range = readValue(text, valueStart, /[ \t]#|\n/);
+    if (range) ranges.push(range);
+  }
+  return ranges;
+}
+
+function findAssignments(
+  text: string,
+  isSensitive: (key: string) => boolean
+): Range[] {
+  const ranges: Range[] = [];
+  for (const match of text.matchAll(ASSIGNMENT)) {
+    if (!isSensitive(match[1])) continue;
+    const valueStart = match.index + match[0].length - match[2].length;
+    const range = readValue(text, valueStart, /[\s,;&)]/);
+    if (range) ranges.push(range);
+  }
+  return ranges;
+}
+
+function findSqlInsertValues(
+  text: string,
+  isSensitive: (key: string) => boolean
+): Range[] {
+  const ranges: Range[] = [];
+  for (const match of text.matchAll(SQL_INSERT)) {
+    const columns = match[1]
+      .split(",")
+      .map((column) => column.trim().replace(/^["`[]|["`\]]$/g, ""));
+    const sensitive = new Set(
+      columns.flatMap((column, i) => (isSensitive(column) ? [i] : []))
+    );
+    if (sensitive.size === 0) continue;
+
+    // Walk the value tuples: (v1, v2), (v1, v2)...
+    let index = match.index + match[0].length;
+    while (text[index] === "(") {
+      index++;
+      for (let column = 0; index < text.length; column++) {
+        while (/\s/.test(text[index])) index++;
+        const range = readSqlValue(text, index);
+        if (sensitive.has(column) && range.value) ranges.push(range.value);
+        index = range.next;
+        while (/\s/.test(text[index])) index++;
+        if (text[index] !== ",") break;
+        index++;
+      }
+      if (text[index] !== ")") break;
+      index++;
+      const next = /^\s*,\s*/.exec(text.slice(index));
+      if (!next) break;
+      index += next[0].length;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Read one SQL literal: 'quoted' (with '' escapes), number, NULL or a
+ * function call, returning the value range (if it's data) and where it ends
+ */
+function readSqlValue(
+  text: string,
+  start: number
+): { value: Range | null; next: number } {
+  if (text[start] === "'") {
+    let end = start + 1;
+    while (end < text.length) {
+      if (text[end] === "'" && text[end + 1] === "'") end += 2;
+      else if (text[end] === "'") break;
+      else end++;
+    }
+    const value = { start: start + 1, end };
+    return {
+      value: isPlaceholder(text, value) ? null : value,
+      next: Math.min(end + 1, text.length),
+    };
+  }
+
+  let end = start;
+  let depth = 0;
+  while (end < text.length) {
+    const char = text[end];
+    if (char === "(") depth++;
+    else if (char === ")" && depth-- === 0) break;
+    else if (char === "," && depth === 0) break;
+    end++;
+  }
+  const value = trimRange(text, { start, end });
+  const isData =
+    !isPlaceholder(text, value) &&
+    !/\(/.test(text.slice(value.start, value.end));
+  return { value: isData ? value : null, next: end };
+}
+
+function findTableCells(
+  lines: Line[],
+  isSensitive: (key: string) => boolean,
+  isInFence: (index: number) => boolean
+): Range[] {
+  const ranges: Range[] = [];
+
+  let i = 0;
+  while (i < lines.length - 1) {
+    const minRows = isInFence(lines[i].start) ? 1 : MIN_TABLE_ROWS;
+    const table = detectTable(lines, i, minRows);
+    if (!table) {
+      i++;
+      continue;
+    }
+
+    const sensitive = table.header.flatMap((cell, column) =>
+      isSensitive(lines[i].text.slice(cell.start, cell.end)) ? [column] : []
+    );
+    for (let row = i + 1; row < table.end; row++) {
+      const cells = splitRow(lines[row].text, table.delimiter);
+      // Markdown header separators such as |---|:---:|
+      if (
+        cells.every((cell) =>
+          /^[\s:-]*$/.test(lines[row].text.slice(cell.start, cell.end))
+        )
+      ) {
+        continue;
+      }
+      for (const column of sensitive) {
+        const cell = cells[column];
+        if (!cell || isPlaceholder(lines[row].text, cell)) continue;
+        ranges.push({
+          start: lines[row].start + cell.start,
+          end: lines[row].start + cell.end,
+        });
+      }
+    }
+    i = table.end;
+  }
+  return ranges;
+}
+
+/**
+ * A table starts at a header line of column names followed by at least
+ * minRows rows with the same number of cells for one of the delimiters
+ */
+function detectTable(
+  lines: Line[],
+  start: number,
+  minRows: number
+): { delimiter: string; header: Range[]; end: number } | null {
+  for (const delimiter of CSV_DELIMITERS) {
+    const header = splitRow(lines[start].text, delimiter);
+    if (header.length < 2) continue;
+    const isHeader = header.every((cell) =>
+      HEADER_CELL.test(lines[start].text.slice(cell.start, cell.end))
+    );
+    if (!isHeader) continue;
+
+    let end = start + 1;
+    while (
+      end < lines.length &&
+      lines[end].text.trim() &&
+      splitRow(lines[end].text, delimiter).length === header.length
+    ) {
+      end++;
+    }
+    if (end - start - 1 >= minRows) return { delimiter, header, end };
+  }
+  return null;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ start: offset, text: line });
+    offset += line.length + 1;
+  }
+  return lines;
+}
+
+// Index of the line containing a text index (lines are sorted by start)
+function findLineIndex(lines: Line[], index: number): number {
+  let lo = 0;
+  let hi = lines.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lines[mid].start <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Split a delimited line into trimmed cell ranges (quotes excluded)
+ */
+function splitRow(line: string, delimiter: string): Range[] {
+  const cells: Range[] = [];
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i <= line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (i === line.length || (char === delimiter && !inQuotes)) {
+      cells.push(unquote(line, trimRange(line, { start, end: i })));
+      start = i + 1;
+    }
+  }
+
+  // Markdown tables have a leading and trailing pipe
+  if (delimiter === "|" && /^\s*\|/.test(line) && /\|\s*$/.test(line)) {
+    return cells.slice(1, -1);
+  }
+  return cells;
+}
+
+/**
+ * Read a (possibly quoted) value starting at an index; unquoted values end
+ * at the terminator
+ */
+function readValue(
+  text: string,
+  start: number,
+  terminator: RegExp
+): Range | null {
+  const quote = text[start];
+  let range: Range;
+  if (quote === '"' || quote === "'") {
+    let end = start + 1;
+    while (end < text.length && text[end] !== quote && text[end] !== "\n") {
+      end += text[end] === "\\" ? 2 : 1;
+    }
+    range = { start: start + 1, end: Math.min(end, text.length) };
+  } else {
+    const rest = text.slice(start);
+    const stop = rest.search(terminator);
+    range = trimRange(text, {
+      start,
+      end: stop === -1 ? text.length : start + stop,
+    });
+  }
+  return isPlaceholder(text, range) ? null : range;
+}
+
+function isPlaceholder(text: string, range: Range): boolean {
+  return PLACEHOLDER_VALUE.test(text.slice(range.start, range.end));
+}
+
+function trimRange(text: string, range: Range): Range {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+function unquote(text: string, range: Range): Range {
+  if (
+    range.end - range.start >= 2 &&
+    text[range.start] === '"' &&
+    text[range.end - 1] === '"'
+  ) {
+    return { start: range.start + 1, end: range.end - 1 };
+  }
+  return range;
+}
@@ -9,13 +9,183 @@ export interface SanitizationRule {
   replacement: string;
   isRegex: boolean;
   flags?: string;
+  /**
+   * Regex rules only: capture group to mask (number or name), the rest of
+   * the match is kept, e.g. "1" masks only the key in `api_key=<key>`
+   */
+  maskGroup?: string;
   enabled: boolean;
+  /** Wins overlapping matches against lower priorities (default 0) */
+  priority?: number;
+  /** How much a match adds to the prompt's risk score (default "medium") */
+  severity?: RuleSeverity;
+  /** What happens to a prompt with matches when it's sent (default "mask") */
+  action?: RuleAction;
+  /** Checksum/structure check each match must pass to count */
+  validator?: ValidatorId;
+  /** Words of which at least one must appear near a match for it to count */
+  contextWords?: string[];
+  /** Words that make a nearby match not count */
+  negativeContextWords?: string[];
+  /** Characters searched for context words on each side (default 50) */
+  contextWindow?: number;
+  /** How matches are masked (default "indexed") */
+  strategy?: MaskingStrategy;
+  /** Trailing characters kept by partial/format-preserving masks (default 4) */
+  keepLast?: number;
+  /** Values this rule never masks (in addition to the global allowlist) */
+  exceptions?: AllowlistEntry[];
+  /** How the rule finds matches (default "pattern") */
+  type?: RuleType;
+  /** Terms matched by dictionary rules */
+  terms?: string[];
+  /** Dictionary rules only: match terms case-sensitively (default false) */
+  caseSensitive?: boolean;
+  /** Dictionary rules only: skip terms inside longer words (default false) */
+  wholeWord?: boolean;
+  /** Entropy rules only: bits per character a token needs (default 4) */
+  minEntropy?: number;
+  /** Entropy rules only: shortest token considered (default 20) */
+  minLength?: number;
+  /** Structured rules only: key/column names whose values are masked */
+  keys?: string[];
+  /** URL rules only: query/fragment parameters whose values are masked */
+  queryParams?: string[];
+  /** URL rules only: domains whose hosts (and subdomains) are masked */
+  internalDomains?: string[];
+  /** Where in the prompt the rule applies (default "all") */
+  scope?: RuleScope;
+  /**
+   * When the rule exceeded the time budget on a page and was disabled
+   * automatically (cleared when it's enabled or saved again)
+   */
+  timedOutAt?: number;
+  /** National ID rules: country whose IDs the rule finds (see Settings) */
+  country?: IdCountry;
   category?: string;
   isSystem?: boolean;
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * A value that is never masked, e.g. a public support address
+ * Literal entries match a whole match case-insensitively, regex entries
+ * must match the whole value (see shared/allowlist.ts)
+ */
+export interface AllowlistEntry {
+  id: string;
+  pattern: string;
+  isRegex: boolean;
+  createdAt: number;
+}
+
+/**
+ * Rule types
+ * - pattern: a single literal or regex pattern
+ * - dictionary: a list of literal terms compiled into one matcher
+ *   (see shared/dictionary.ts)
+ * - entropy: random-looking tokens such as generated secrets
+ *   (see shared/entropy.ts)
+ * - structured: values of sensitive keys/columns in JSON, YAML, .env, SQL
+ *   and CSV (see shared/structured.ts)
+ * - url: credentials, sensitive query parameters and internal hosts in URLs
+ *   (see findUrlMatches in shared/sanitizer.ts)
+ * - address: street addresses and postal codes (see shared/address.ts)
+ * - date: calendar dates in numeric and written formats
+ *   (see shared/dates.ts)
+ */
+export type RuleType =
+  | "pattern"
+  | "dictionary"
+  | "entropy"
+  | "structured"
+  | "url"
+  | "address"
+  | "date";
+
+/**
+ * Parts of the prompt a rule applies to
+ * - all: everywhere
+ * - prose: outside Markdown code blocks and inline code
+ * - code: only inside them (see shared/codeBlocks.ts)
+ */
+export type RuleScope = "all" | "prose" | "code";
+
+/**
+ * Built-in match validators (see shared/validators.ts)
+ */
+export type ValidatorId =
+  | "luhn"
+  | "verhoeff"
+  | "iban"
+  | "ssn"
+  | "ipv4"
+  | "nino"
+  | "nhs"
+  | "sin"
+  | "steuer-id"
+  | "insee"
+  | "dni"
+  | "codice-fiscale"
+  | "cpf"
+  | "cnpj"
+  | "bsn"
+  | "bic"
+  | "aba"
+  | "bitcoin"
+  | "eip55"
+  | "vin";
+
+/**
+ * Countries covered by the national ID rule pack (ISO 3166 codes)
+ */
+export type IdCountry = "GB" | "CA" | "DE" | "FR" | "ES" | "IT" | "NL" | "BR";
+
+/**
+ * Compliance profiles (see shared/profiles.ts)
+ * - hipaa: HIPAA Safe Harbor de-identification (the 18 identifiers)
+ */
+export type ComplianceProfileId = "hipaa";
+
+/**
+ * How dangerous a rule's matches are to leak (see shared/risk.ts)
+ * - low: rarely identifying on its own, e.g. an IP address or a date
+ * - medium: personal contact details, e.g. an email or phone number
+ * - high: government, financial and health identifiers
+ * - critical: credentials that grant access, e.g. private keys
+ */
+export type RuleSeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * What a rule does with its matches
+ * - mask: matches are masked (see MaskingStrategy)
+ * - warn: matches are left as-is and highlighted, sending needs a
+ *   confirmation
+ * - block: the prompt can't be sent while it has matches, not even masked
+ */
+export type RuleAction = "mask" | "warn" | "block";
+
+/**
+ * How a rule masks its matches (see shared/strategies.ts)
+ * - indexed: numbered token per distinct value, e.g. [EMAIL]_1
+ * - fixed: the replacement as-is, e.g. [EMAIL]
+ * - partial: keep email domain / last characters, e.g. ****@corp.com
+ * - preserve-format: keep separators and shape, e.g. XXX-XX-1234
+ * - redact: remove the value entirely
+ * - fake: realistic synthetic value of the same type and shape
+ * - shift: dates moved by the conversation's date offset, e.g. 1990-03-14
+ *   -> 1990-07-02 (other values get an indexed token)
+ */
+export type MaskingStrategy =
+  | "indexed"
+  | "fixed"
+  | "partial"
+  | "preserve-format"
+  | "redact"
+  | "fake"
+  | "shift";
+
 /**
  * Extension settings
  */
@@ -28,7 +198,16 @@ export interface ExtensionSettings {
    * - always: always show (disabled when nothing to sanitize)
    */
   overlayMode: OverlayMode;
+  /**
+   * Show original values in place of masked tokens (e.g. [EMAIL]_1)
+   * that the LLM echoes back in its responses. Display only.
+   */
+  rehydrateResponses: boolean;
   enabledSites: SupportedSite[];
+  /** Countries whose national ID rules are turned on */
+  idCountries: IdCountry[];
+  /** Compliance profile whose rules are forced on (see shared/profiles.ts) */
+  complianceProfile: ComplianceProfileId | null;
   theme: "light" | "dark" | "system";
 }
 
@@ -54,6 +233,11 @@ export interface StorageSchema {
   settings: ExtensionSettings;
   syncMeta?: SyncMetadata;
   overlayPositions?: OverlayPositions;
+  vaults?: PseudonymVaults;
+  /** Values never masked by any rule */
+  allowlist?: AllowlistEntry[];
+  /** Version of the bundled system rules the stored rules were migrated to */
+  rulesVersion?: number;
 }
 
 /**
@@ -73,6 +257,40 @@ export interface SanitizationResult {
   sanitizedText: string;
   appliedRules: AppliedRule[];
   hasChanges: boolean;
+  /** Matches left unmasked because their context condition didn't hold */
+  lowConfidence: MatchSpan[];
+  /** Matches of warn and block rules, left unmasked */
+  flagged: MatchSpan[];
+  /** How dangerous the matches were (masked and flagged) */
+  risk: RiskScore;
+}
+
+/**
+ * Risk level of a prompt, from its risk score
+ */
+export type RiskLevel = "none" | RuleSeverity;
+
+/**
+ * Risk of a prompt, from the severity and number of its matches
+ */
+export interface RiskScore {
+  /** 0-100 */
+  score: number;
+  level: RiskLevel;
+  matchCount: number;
+  /** Points per rule, highest first */
+  breakdown: RiskFactor[];
+}
+
+/**
+ * A rule's share of a risk score
+ */
+export interface RiskFactor {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  matchCount: number;
+  points: number;
 }
 
 /**
@@ -90,6 +308,53 @@ export interface AppliedRule {
   replacementMap: ReplacementMap;
 }
 
+/**
+ * A match of a rule in the original text (end is exclusive)
+ */
+export interface MatchSpan {
+  start: number;
+  end: number;
+  value: string;
+  rule: SanitizationRule;
+  /** Position of the rule in the evaluated list, breaks priority ties */
+  ruleIndex: number;
+  /** The rule's context condition doesn't hold around this match */
+  lowConfidence?: boolean;
+}
+
+/**
+ * Pseudonym vault for a single conversation
+ * Keeps the token for each original value stable across turns
+ */
+export interface PseudonymVault {
+  /** Entry key (strategy, base and original value, see getEntryKey) -> mask */
+  entries: ReplacementMap;
+  /** Highest index handed out per replacement base (e.g. "[EMAIL]" -> 3) */
+  counters: Record<string, number>;
+  /** Seed for deterministic fake data in this conversation */
+  seed?: string;
+  updatedAt: number;
+}
+
+/**
+ * Pseudonym vaults keyed by site + conversation (e.g. "chatgpt:<id>")
+ */
+export type PseudonymVaults = Record<string, PseudonymVault>;
+
+/**
+ * Options for a sanitization run
+ */
+export interface SanitizeOptions {
+  /** Reuse tokens from (and continue numbering of) this vault */
+  vault?: PseudonymVault;
+  /** IDs of rules whose low-confidence matches are masked anyway */
+  maskLowConfidence?: string[];
+  /** Values never masked by any rule */
+  allowlist?: AllowlistEntry[];
+  /** Called before each rule is matched (lets a worker report progress) */
+  onRuleStart?: (rule: SanitizationRule) => void;
+}
+
 /**
  * Overlay position for a specific host
  */
@@ -120,6 +385,7 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   autoSanitize: false,
   showOverlay: true,
   overlayMode: "smart",
+  rehydrateResponses: true,
   enabledSites: [
     "chatgpt",
     "claude",
@@ -129,5 +395,7 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
     // "perplexity",
     // "notion",
   ],
+  idCountries: [],
+  complianceProfile: null,
   theme: "system",
 };
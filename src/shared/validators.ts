@@ -0,0 +1,673 @@
+import type { ValidatorId } from "./types";
+import { keccak256, sha256 } from "./hash";
+
+/**
+ * Checksum / structure validators that a rule can run on each match
+ * A match only counts if its validator accepts it
+ */
+export const VALIDATORS: Record<
+  ValidatorId,
+  { name: string; description: string; validate: (value: string) => boolean }
+> = {
+  luhn: {
+    name: "Luhn (cards)",
+    description: "Credit/debit card numbers with a valid Luhn check digit",
+    validate: isValidLuhn,
+  },
+  verhoeff: {
+    name: "Verhoeff (Aadhaar)",
+    description: "Numbers with a valid Verhoeff check digit",
+    validate: isValidVerhoeff,
+  },
+  iban: {
+    name: "IBAN mod-97",
+    description:
+      "IBANs with their country's length whose mod-97 checksum equals 1",
+    validate: isValidIban,
+  },
+  ssn: {
+    name: "SSN area/group",
+    description: "US SSNs with an issuable area, group and serial number",
+    validate: isValidSsn,
+  },
+  ipv4: {
+    name: "IPv4 octets",
+    description: "IPv4 addresses with every octet between 0 and 255",
+    validate: isValidIpv4,
+  },
+  nino: {
+    name: "UK NINO prefix",
+    description: "UK National Insurance numbers with an allocated prefix",
+    validate: isValidNino,
+  },
+  nhs: {
+    name: "NHS mod 11",
+    description: "UK NHS numbers with a valid mod-11 check digit",
+    validate: isValidNhs,
+  },
+  sin: {
+    name: "SIN (Luhn)",
+    description: "Canadian Social Insurance Numbers with a valid Luhn digit",
+    validate: isValidSin,
+  },
+  "steuer-id": {
+    name: "Steuer-ID (ISO 7064)",
+    description: "German tax IDs with a valid MOD 11,10 check digit",
+    validate: isValidSteuerId,
+  },
+  insee: {
+    name: "INSEE key (mod 97)",
+    description: "French social security numbers with a valid key",
+    validate: isValidInsee,
+  },
+  dni: {
+    name: "DNI/NIE letter",
+    description: "Spanish DNI and NIE numbers with a valid control letter",
+    validate: isValidDni,
+  },
+  "codice-fiscale": {
+    name: "Codice Fiscale check",
+    description: "Italian fiscal codes with a valid check character",
+    validate: isValidCodiceFiscale,
+  },
+  cpf: {
+    name: "CPF check digits",
+    description: "Brazilian CPF numbers with valid check digits",
+    validate: isValidCpf,
+  },
+  cnpj: {
+    name: "CNPJ check digits",
+    description: "Brazilian CNPJ numbers with valid check digits",
+    validate: isValidCnpj,
+  },
+  bsn: {
+    name: "BSN 11-proof",
+    description: "Dutch citizen service numbers passing the 11-proof",
+    validate: isValidBsn,
+  },
+  bic: {
+    name: "SWIFT/BIC structure",
+    description: "BIC codes with a country code in use",
+    validate: isValidBic,
+  },
+  aba: {
+    name: "ABA routing checksum",
+    description: "US routing numbers with a valid 3-7-1 checksum",
+    validate: isValidAbaRouting,
+  },
+  bitcoin: {
+    name: "Bitcoin address checksum",
+    description: "Base58Check (1.../3...) or Bech32 (bc1...) addresses",
+    validate: isValidBitcoinAddress,
+  },
+  eip55: {
+    name: "Ethereum EIP-55",
+    description: "Ethereum addresses, mixed-case ones with a valid checksum",
+    validate: isValidEthereumAddress,
+  },
+  vin: {
+    name: "VIN check digit",
+    description: "Vehicle identification numbers with a valid check digit",
+    validate: isValidVin,
+  },
+};
+
+/**
+ * Run a validator on a matched value (no validator accepts everything)
+ */
+export function runValidator(
+  validator: ValidatorId | undefined,
+  value: string
+): boolean {
+  if (!validator) return true;
+  const entry = VALIDATORS[validator];
+  // Unknown validators (e.g. from a newer export) don't block matches
+  return entry ? entry.validate(value) : true;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+/**
+ * Luhn (mod 10) checksum
+ */
+export function isValidLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^\d{12,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff checksum (used by Aadhaar)
+ */
+export function isValidVerhoeff(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^\d+$/.test(digits)) return false;
+
+  let check = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][digit]];
+  }
+  return check === 0;
+}
+
+// IBAN length per country (SWIFT IBAN registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BI: 27,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DJ: 27,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FK: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  LY: 25,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MN: 20,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NI: 28,
+  NL: 18,
+  NO: 15,
+  OM: 23,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  RU: 33,
+  SA: 24,
+  SC: 31,
+  SD: 18,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  SO: 23,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+};
+
+/**
+ * IBAN mod-97 checksum (ISO 13616), with the length its country uses
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    // Letters become two digits: A = 10 ... Z = 35
+    const chunk = code >= 65 ? String(code - 55) : char;
+    for (const digit of chunk) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * US SSN issuance rules: area not 000, 666 or 9xx, group not 00,
+ * serial not 0000
+ */
+export function isValidSsn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^\d{9}$/.test(digits)) return false;
+
+  const area = Number(digits.slice(0, 3));
+  const group = Number(digits.slice(3, 5));
+  const serial = Number(digits.slice(5));
+  return (
+    area !== 0 && area !== 666 && area < 900 && group !== 0 && serial !== 0
+  );
+}
+
+/**
+ * IPv4 dotted quad with octets in 0-255 and no leading zeros
+ */
+export function isValidIpv4(value: string): boolean {
+  const octets = value.split(".");
+  return (
+    octets.length === 4 &&
+    octets.every(
+      (octet) =>
+        /^(?:0|[1-9]\d{0,2})$/.test(octet) && Number(octet) <= 255
+    )
+  );
+}
+
+// Prefixes HMRC never allocates
+const NINO_INVALID_PREFIXES = new Set([
+  "BG",
+  "GB",
+  "KN",
+  "NK",
+  "NT",
+  "TN",
+  "ZZ",
+]);
+
+/**
+ * UK National Insurance number: two prefix letters (D, F, I, Q, U, V never,
+ * O never second), six digits, suffix A-D
+ */
+export function isValidNino(value: string): boolean {
+  const nino = value.replace(/\s/g, "").toUpperCase();
+  return (
+    /^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(nino) &&
+    !NINO_INVALID_PREFIXES.has(nino.slice(0, 2))
+  );
+}
+
+/**
+ * UK NHS number: mod-11 check digit (a remainder giving 10 is never issued)
+ */
+export function isValidNhs(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^\d{10}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) sum += Number(digits[i]) * (10 - i);
+  const check = 11 - (sum % 11);
+  if (check === 10) return false;
+  return (check === 11 ? 0 : check) === Number(digits[9]);
+}
+
+/**
+ * Canadian SIN: nine digits with a Luhn check digit; 0 and 8 are never the
+ * first digit
+ */
+export function isValidSin(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^[1-79]\d{8}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    let digit = Number(digits[i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * German Steuer-ID: ISO 7064 MOD 11,10 check digit, and in the first ten
+ * digits exactly one digit repeats (twice or three times)
+ */
+export function isValidSteuerId(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^[1-9]\d{10}$/.test(digits)) return false;
+
+  const counts = new Map<string, number>();
+  for (const digit of digits.slice(0, 10)) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
+  const repeated = [...counts.values()].filter((count) => count > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) return false;
+
+  let product = 10;
+  for (let i = 0; i < 10; i++) {
+    const sum = (Number(digits[i]) + product) % 10 || 10;
+    product = (sum * 2) % 11;
+  }
+  const check = 11 - product;
+  return (check === 10 ? 0 : check) === Number(digits[10]);
+}
+
+/**
+ * French INSEE/NIR number: the key is 97 minus the first 13 digits mod 97
+ * (Corsican departments 2A and 2B count as 19 and 18)
+ */
+export function isValidInsee(value: string): boolean {
+  const nir = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[1-478]\d{4}(?:\d{2}|2[AB])\d{8}$/.test(nir)) return false;
+
+  const number = nir
+    .slice(0, 13)
+    .replace(/^(\d{5})2A/, "$119")
+    .replace(/^(\d{5})2B/, "$118");
+  return 97 - mod97(number) === Number(nir.slice(13));
+}
+
+const DNI_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+
+/**
+ * Spanish DNI (8 digits) or NIE (X/Y/Z + 7 digits): control letter is the
+ * number mod 23, with the NIE prefix read as 0/1/2
+ */
+export function isValidDni(value: string): boolean {
+  const id = value.replace(/[\s-]/g, "").toUpperCase();
+  const match = /^([XYZ]\d{7}|\d{8})([A-Z])$/.exec(id);
+  if (!match) return false;
+
+  const number = Number(
+    match[1].replace(/^[XYZ]/, (p) => String("XYZ".indexOf(p)))
+  );
+  return DNI_LETTERS[number % 23] === match[2];
+}
+
+// Values of characters in odd (1st, 3rd...) positions, digits then letters
+const CF_ODD_VALUES = [
+  1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10,
+  22, 25, 24, 23,
+];
+
+/**
+ * Italian Codice Fiscale: the last letter is a weighted sum of the first 15
+ * characters mod 26
+ */
+export function isValidCodiceFiscale(value: string): boolean {
+  const code = value.toUpperCase();
+  if (!/^[A-Z0-9]{15}[A-Z]$/.test(code)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 15; i++) {
+    const char = code[i];
+    const isDigit = char <= "9";
+    if (i % 2 === 0) {
+      // Digits share the values of A-J in odd positions
+      sum += CF_ODD_VALUES[isDigit ? Number(char) : char.charCodeAt(0) - 65];
+    } else {
+      sum += isDigit ? Number(char) : char.charCodeAt(0) - 65;
+    }
+  }
+  return String.fromCharCode(65 + (sum % 26)) === code[15];
+}
+
+/**
+ * Brazilian CPF: two mod-11 check digits
+ */
+export function isValidCpf(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    if (((sum * 10) % 11) % 10 !== Number(digits[length])) return false;
+  }
+  return true;
+}
+
+/**
+ * Brazilian CNPJ: two mod-11 check digits with weights 2-9 from the right
+ */
+export function isValidCnpj(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+
+  for (const length of [12, 13]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[length - 1 - i]) * ((i % 8) + 2);
+    }
+    const remainder = sum % 11;
+    if ((remainder < 2 ? 0 : 11 - remainder) !== Number(digits[length])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Dutch BSN: 11-proof with weights 9..2 and -1 for the last digit
+ */
+export function isValidBsn(value: string): boolean {
+  const digits = digitsOf(value).replace(/\./g, "");
+  if (!/^\d{9}$/.test(digits)) return false;
+
+  let sum = -Number(digits[8]);
+  for (let i = 0; i < 8; i++) sum += Number(digits[i]) * (9 - i);
+  return sum % 11 === 0 && sum > 0;
+}
+
+/**
+ * Remainder of a long decimal string divided by 97
+ */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder;
+}
+
+// ISO 3166 country codes BICs can carry (IBAN countries and other major
+// banking countries)
+const BIC_COUNTRIES = new Set([
+  ...Object.keys(IBAN_LENGTHS),
+  ...["AR", "AU", "BD", "CA", "CL", "CN", "CO", "HK", "ID", "IN", "JP", "KE"],
+  ...["KR", "MA", "MX", "MY", "NG", "NZ", "PE", "PH", "SG", "TH", "TW", "US"],
+  ...["VN", "ZA"],
+]);
+
+/**
+ * SWIFT/BIC: 4-letter bank code, a country code in use, 2-character
+ * location (second character never "O") and an optional 3-character branch
+ */
+export function isValidBic(value: string): boolean {
+  const bic = value.toUpperCase();
+  return (
+    /^[A-Z]{6}[A-Z2-9][A-NP-Z0-9](?:[A-Z0-9]{3})?$/.test(bic) &&
+    BIC_COUNTRIES.has(bic.slice(4, 6))
+  );
+}
+
+/**
+ * US ABA routing number: Federal Reserve prefix and 3-7-1 weighted checksum
+ */
+export function isValidAbaRouting(value: string): boolean {
+  const digits = digitsOf(value);
+  if (!/^(?:0[0-9]|1[0-2]|2[1-9]|3[0-2]|6[1-9]|7[0-2]|80)\d{7}$/.test(digits)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1];
+  let sum = 0;
+  for (let i = 0; i < 9; i++) sum += Number(digits[i]) * weights[i % 3];
+  return sum % 10 === 0;
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BECH32_ALPHABET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+/**
+ * Bitcoin address: Base58Check P2PKH/P2SH (double SHA-256 checksum) or
+ * Bech32/Bech32m segwit (BCH checksum)
+ */
+export function isValidBitcoinAddress(value: string): boolean {
+  return /^bc1/i.test(value)
+    ? isValidBech32(value.toLowerCase())
+    : isValidBase58Check(value);
+}
+
+function isValidBase58Check(value: string): boolean {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return false;
+    number = number * 58n + BigInt(digit);
+  }
+
+  // Version byte + 20-byte hash + 4-byte checksum, leading "1"s are zeros
+  const bytes = new Uint8Array(25);
+  for (let i = 24; i >= 0; i--) {
+    bytes[i] = Number(number & 0xffn);
+    number >>= 8n;
+  }
+  if (number !== 0n || (bytes[0] !== 0x00 && bytes[0] !== 0x05)) return false;
+
+  const checksum = sha256(sha256(bytes.slice(0, 21)));
+  return checksum.slice(0, 4).every((byte, i) => byte === bytes[21 + i]);
+}
+
+function isValidBech32(address: string): boolean {
+  const separator = address.lastIndexOf("1");
+  const data = [...address.slice(separator + 1)].map((char) =>
+    BECH32_ALPHABET.indexOf(char)
+  );
+  if (data.length < 7 || data.includes(-1)) return false;
+
+  const hrp = address.slice(0, separator);
+  const values = [
+    ...[...hrp].map((char) => char.charCodeAt(0) >> 5),
+    0,
+    ...[...hrp].map((char) => char.charCodeAt(0) & 31),
+    ...data,
+  ];
+  const generator = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= generator[i];
+    }
+  }
+
+  // Witness version 0 uses Bech32, later versions Bech32m
+  return checksum === (data[0] === 0 ? 1 : 0x2bc830a3);
+}
+
+/**
+ * Ethereum address: all-lowercase/uppercase ones carry no checksum,
+ * mixed-case ones must match the EIP-55 capitalization
+ */
+export function isValidEthereumAddress(value: string): boolean {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) return false;
+
+  const hex = value.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+
+  const hash = keccak256(new TextEncoder().encode(hex.toLowerCase()));
+  for (let i = 0; i < 40; i++) {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0xf;
+    const char = hex[i];
+    if (/[a-f]/i.test(char) && nibble >= 8 !== (char === char.toUpperCase())) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// VIN letter values (I, O and Q are never used)
+const VIN_VALUES = "0123456789.ABCDEFGH..JKLMN.P.R..STUVWXYZ";
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Vehicle identification number: 17 characters with the North American
+ * check digit (mod 11, X for 10) in position 9
+ */
+export function isValidVin(value: string): boolean {
+  const vin = value.toUpperCase();
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin) || !/\d/.test(vin)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const index = VIN_VALUES.indexOf(vin[i]);
+    // Letters count as 1-9 in runs: A-H, J-R, S-Z
+    const charValue = index < 10 ? index : ((index - 11) % 10) + 1;
+    sum += charValue * VIN_WEIGHTS[i];
+  }
+  const check = sum % 11;
+  return vin[8] === (check === 10 ? "X" : String(check));
+}
@@ -0,0 +1,136 @@
+import type {
+  MaskingStrategy,
+  PseudonymVault,
+  ReplacementMap,
+  SanitizationRule,
+  SupportedSite,
+} from "./types";
+
+/**
+ * Create an empty pseudonym vault
+ */
+export function createVault(): PseudonymVault {
+  return {
+    entries: {},
+    counters: {},
+    seed: crypto.randomUUID(),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Copy a vault so a sanitization run can allocate tokens without
+ * committing them (e.g. while previewing)
+ */
+export function cloneVault(vault: PseudonymVault): PseudonymVault {
+  return {
+    entries: { ...vault.entries },
+    counters: { ...vault.counters },
+    seed: vault.seed,
+    updatedAt: vault.updatedAt,
+  };
+}
+
+/**
+ * Storage key of the vault for a conversation on a site
+ */
+export function getVaultKey(
+  site: SupportedSite,
+  conversationId: string
+): string {
+  return `${site}:${conversationId}`;
+}
+
+/**
+ * Key of a value's vault entry
+ * A value masked by rules with different bases or strategies gets an entry
+ * for each, so e.g. an SSN never reuses the [PHONE] token of a phone rule.
+ */
+export function getEntryKey(
+  value: string,
+  base: string,
+  strategy: MaskingStrategy
+): string {
+  return `${strategy}\u0000${base}\u0000${value}`;
+}
+
+/**
+ * Mask -> original value of every entry in the vault (for mapping masks
+ * back to their values)
+ */
+export function getVaultOriginals(
+  vault: PseudonymVault
+): Record<string, string> {
+  const originals: Record<string, string> = {};
+  for (const [key, token] of Object.entries(vault.entries)) {
+    // Entries of vaults stored before keys had a base are plain values
+    originals[token] = key.split("\u0000").pop()!;
+  }
+  return originals;
+}
+
+/**
+ * Get the token for a value, reusing the vault's token if the value was
+ * masked with the same base before and otherwise continuing the numbering
+ * for its base
+ */
+export function allocateToken(
+  vault: PseudonymVault,
+  value: string,
+  base: string
+): string {
+  const key = getEntryKey(value, base, "indexed");
+  const existing = vault.entries[key];
+  if (existing !== undefined) return existing;
+
+  const index = (vault.counters[base] || 0) + 1;
+  const token = `${base}_${index}`;
+  vault.counters[base] = index;
+  vault.entries[key] = token;
+  return token;
+}
+
+/**
+ * Strategies whose output identifies a single original value, so it can be
+ * stored in the vault and mapped back (e.g. in responses)
+ */
+export function isReversibleStrategy(
+  strategy: MaskingStrategy = "indexed"
+): boolean {
+  return strategy === "indexed" || strategy === "fake" || strategy === "shift";
+}
+
+/**
+ * Record the mappings of applied rules in the vault (mutates the vault)
+ * Only reversible masks are kept; e.g. a fixed [EMAIL] can't be mapped back.
+ */
+export function recordInVault(
+  vault: PseudonymVault,
+  appliedRules: { rule: SanitizationRule; replacementMap: ReplacementMap }[]
+): PseudonymVault {
+  for (const { rule, replacementMap } of appliedRules) {
+    if (!isReversibleStrategy(rule.strategy)) continue;
+    for (const [value, token] of Object.entries(replacementMap)) {
+      const key = getEntryKey(
+        value,
+        rule.replacement,
+        rule.strategy ?? "indexed"
+      );
+      vault.entries[key] = token;
+
+      // Keep counters ahead of every indexed token we've seen
+      const prefix = `${rule.replacement}_`;
+      if (token.startsWith(prefix)) {
+        const index = Number(token.slice(prefix.length));
+        if (Number.isInteger(index)) {
+          vault.counters[rule.replacement] = Math.max(
+            vault.counters[rule.replacement] || 0,
+            index
+          );
+        }
+      }
+    }
+  }
+  vault.updatedAt = Date.now();
+  return vault;
+}